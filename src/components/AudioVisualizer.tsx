@@ -0,0 +1,145 @@
+import React, { useEffect, useRef } from 'react';
+import { MicOff, Pause } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getSpeakerColor, readThemeColor } from '@/lib/themeColors';
+import { audioPipeline } from '@/services/audio/audioPipeline';
+import { VoiceActivityDetector } from '@/services/audio/voiceActivityDetector';
+
+interface AudioVisualizerProps {
+  /** Scrolls only while true; otherwise the last picture stays up */
+  active: boolean;
+  paused: boolean;
+  vad: VoiceActivityDetector;
+  /** Who is talking right now, read every frame to colour speech */
+  getSpeaker: () => string | null;
+  className?: string;
+}
+
+// Fine enough for the spectrogram to separate voices' harmonics
+const FFT_SIZE = 2048;
+// Speech has little energy above this, so the spectrogram stops here
+const MAX_FREQUENCY_HZ = 8000;
+// CSS pixels scrolled per animation frame, a few seconds across the card
+const SCROLL_PX = 2;
+// Share of the height given to the waveform; the spectrogram gets the rest
+const WAVEFORM_SHARE = 0.4;
+// Spectrogram cells quieter than this are left empty
+const MIN_INTENSITY = 0.08;
+
+/**
+ * Scrolling waveform over a spectrogram, drawn straight from a pipeline
+ * analyser on every animation frame. Nothing here goes through React state,
+ * so the recorder does not re-render while it draws. Speech is drawn in the
+ * current speaker's colour and silence in the inactive colour.
+ */
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ active, paused, vad, getSpeaker, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const getSpeakerRef = useRef(getSpeaker);
+  getSpeakerRef.current = getSpeaker;
+
+  // Canvas size follows the element, at device resolution
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.clientWidth * ratio);
+      canvas.height = Math.round(canvas.clientHeight * ratio);
+    };
+    resize();
+
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !active || !audioPipeline.isActive) return;
+
+    const tap = audioPipeline.createAnalyserTap(FFT_SIZE);
+    const { analyser } = tap;
+    analyser.smoothingTimeConstant = 0.2;
+
+    const waveform = new Float32Array(analyser.fftSize);
+    const spectrum = new Uint8Array(analyser.frequencyBinCount);
+    const binHz = analyser.context.sampleRate / analyser.fftSize;
+    const bins = Math.min(spectrum.length, Math.ceil(MAX_FREQUENCY_HZ / binHz));
+    const colors = {
+      inactive: readThemeColor('voice-inactive'),
+      speech: readThemeColor('voice-wave'),
+    };
+    const speakerColors = new Map<string, string>();
+    const colorFor = (speaker: string | null) => {
+      if (!speaker) return colors.speech;
+      if (!speakerColors.has(speaker)) {
+        speakerColors.set(speaker, readThemeColor(getSpeakerColor(speaker)) || colors.speech);
+      }
+      return speakerColors.get(speaker)!;
+    };
+
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const { width, height } = canvas;
+      if (width === 0 || height === 0) return;
+
+      analyser.getFloatTimeDomainData(waveform);
+      analyser.getByteFrequencyData(spectrum);
+      const color = vad.isSpeaking ? colorFor(getSpeakerRef.current()) : colors.inactive;
+
+      // Shift everything left and draw the newest column at the right edge;
+      // 'copy' leaves the uncovered strip transparent instead of smearing it
+      const step = Math.max(1, Math.round(SCROLL_PX * (window.devicePixelRatio || 1)));
+      const x = width - step;
+      context.globalCompositeOperation = 'copy';
+      context.drawImage(canvas, -step, 0);
+      context.globalCompositeOperation = 'source-over';
+
+      let min = 0;
+      let max = 0;
+      for (let i = 0; i < waveform.length; i++) {
+        if (waveform[i] < min) min = waveform[i];
+        if (waveform[i] > max) max = waveform[i];
+      }
+      const waveHeight = height * WAVEFORM_SHARE;
+      const middle = waveHeight / 2;
+      context.fillStyle = `hsl(${color})`;
+      context.fillRect(x, middle - Math.min(1, max) * middle, step, Math.max(1, (Math.min(1, max) - Math.max(-1, min)) * middle));
+
+      // Low frequencies at the bottom, brighter where there is more energy
+      const rowHeight = (height - waveHeight) / bins;
+      for (let bin = 0; bin < bins; bin++) {
+        const intensity = spectrum[bin] / 255;
+        if (intensity < MIN_INTENSITY) continue;
+        context.fillStyle = `hsl(${color} / ${intensity.toFixed(2)})`;
+        context.fillRect(x, height - (bin + 1) * rowHeight, step, Math.ceil(rowHeight));
+      }
+    };
+    draw();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      tap.disconnect();
+    };
+  }, [active, vad]);
+
+  return (
+    <div className={cn("relative overflow-hidden rounded-md border border-border bg-muted/30", className)}>
+      <canvas ref={canvasRef} className="block w-full h-full" />
+      {!active && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/40">
+          {paused ? (
+            <Pause className="w-8 h-8 text-foreground" />
+          ) : (
+            <MicOff className="w-8 h-8 text-muted-foreground" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioVisualizer;
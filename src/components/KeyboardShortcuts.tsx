@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Keyboard } from 'lucide-react';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { SHORTCUT_GROUPS, SHORTCUTS } from '@/lib/shortcuts';
+
+const KeyboardShortcuts: React.FC = () => {
+  const [open, setOpen] = useState(false);
+
+  useKeyboardShortcuts({
+    showShortcuts: () => setOpen(current => !current),
+  });
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} title="Keyboard shortcuts (?)">
+        <Keyboard className="w-4 h-4 mr-2" />
+        Shortcuts
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <CommandInput placeholder="Search shortcuts..." />
+        <CommandList>
+          <CommandEmpty>No matching shortcuts.</CommandEmpty>
+          {SHORTCUT_GROUPS.map((group) => (
+            <CommandGroup key={group} heading={group}>
+              {SHORTCUTS.filter(shortcut => shortcut.group === group).map((shortcut) => (
+                <CommandItem key={shortcut.id} value={`${shortcut.description} ${shortcut.label}`}>
+                  {shortcut.description}
+                  <CommandShortcut>{shortcut.label}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          ))}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default KeyboardShortcuts;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Languages } from 'lucide-react';
+import { languageRegistry } from '@/services/language/languageRegistry';
+import { TRANSLATION_OFF, translationService } from '@/services/translation';
+
+interface MeetingLanguagesProps {
+  expectedLanguages: string[];
+  onChange: (languages: string[]) => void;
+  disabled?: boolean;
+}
+
+const MeetingLanguages: React.FC<MeetingLanguagesProps> = ({
+  expectedLanguages,
+  onChange,
+  disabled,
+}) => {
+  const [translationProvider, setTranslationProvider] = useState(() => translationService.getSelectedId());
+
+  const handleProviderChange = (id: string) => {
+    setTranslationProvider(id);
+    translationService.setSelectedId(id);
+  };
+
+  const toggleLanguage = (name: string) => {
+    const next = expectedLanguages.includes(name)
+      ? expectedLanguages.filter(language => language !== name)
+      : [...expectedLanguages, name];
+    // A meeting needs at least one language to recognize
+    if (next.length > 0) onChange(next);
+  };
+
+  return (
+    <Card className="p-4 bg-gradient-card border-border">
+      <h3 className="text-lg font-semibold text-foreground flex items-center mb-1">
+        <Languages className="w-5 h-5 mr-2" />
+        Meeting Languages
+      </h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Only the selected languages are recognized and detected.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {languageRegistry.list().map((language) => (
+          <Button
+            key={language.code}
+            onClick={() => toggleLanguage(language.name)}
+            variant={expectedLanguages.includes(language.name) ? 'default' : 'outline'}
+            size="sm"
+            className="text-xs"
+            disabled={disabled}
+          >
+            {language.name}
+          </Button>
+        ))}
+      </div>
+      <div className="flex items-center justify-between mt-4">
+        <Label className="text-sm text-muted-foreground">Translate with</Label>
+        <Select value={translationProvider} onValueChange={handleProviderChange}>
+          <SelectTrigger className="w-44 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={TRANSLATION_OFF} className="text-xs">Off</SelectItem>
+            {translationService.list().map((provider) => (
+              <SelectItem key={provider.id} value={provider.id} className="text-xs">
+                {provider.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {expectedLanguages.length < 2 && translationProvider !== TRANSLATION_OFF && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Pick a second language to see translations.
+        </p>
+      )}
+    </Card>
+  );
+};
+
+export default MeetingLanguages;
@@ -1,26 +1,50 @@
 import React from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Users, Clock, Languages, Wifi, WifiOff } from 'lucide-react';
+import { Users, Clock, Gauge, Languages, Wifi, WifiOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { VoiceActivityStats } from '@/services/audio/voiceActivityDetector';
+import { CodeSwitchStats } from '@/services/language/languageIdentifier';
+import { languageRegistry } from '@/services/language/languageRegistry';
+import { ConfidenceStats } from '@/services/transcription';
 
 interface MeetingStatsProps {
   activeSpeakers: number;
+  /** Time spent recording, without pauses */
   duration: string;
+  /** Time since the meeting started, pauses included */
+  wallClockDuration?: string;
   totalTranscriptions: number;
   isOnline: boolean;
   languages: string[];
+  voiceActivity?: VoiceActivityStats | null;
+  codeSwitching?: CodeSwitchStats[];
+  confidence?: ConfidenceStats;
 }
 
+const formatMinutes = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
 const MeetingStats: React.FC<MeetingStatsProps> = ({
   activeSpeakers,
   duration,
+  wallClockDuration,
   totalTranscriptions,
   isOnline,
   languages,
+  voiceActivity,
+  codeSwitching = [],
+  confidence,
 }) => {
+  const trackedMs = voiceActivity ? voiceActivity.speechMs + voiceActivity.silenceMs : 0;
+  const silencePercent = trackedMs > 0 ? Math.round((voiceActivity.silenceMs / trackedMs) * 100) : 0;
+
   return (
-    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4">
       {/* Active Speakers */}
       <Card className="p-4 bg-gradient-card border-border">
         <div className="flex items-center space-x-3">
@@ -42,7 +66,17 @@ const MeetingStats: React.FC<MeetingStatsProps> = ({
           </div>
           <div>
             <p className="text-2xl font-bold text-foreground">{duration}</p>
-            <p className="text-xs text-muted-foreground">Duration</p>
+            <p className="text-xs text-muted-foreground">Active Duration</p>
+            {wallClockDuration && wallClockDuration !== duration && (
+              <p className="text-xs text-muted-foreground">
+                Wall clock {wallClockDuration}
+              </p>
+            )}
+            {trackedMs > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Speech {formatMinutes(voiceActivity.speechMs)} • Silence {silencePercent}%
+              </p>
+            )}
           </div>
         </div>
       </Card>
@@ -54,14 +88,39 @@ const MeetingStats: React.FC<MeetingStatsProps> = ({
             <Languages className="w-5 h-5 text-primary" />
           </div>
           <div>
-            <div className="flex space-x-1 mb-1">
+            <div className="flex flex-wrap gap-1 mb-1">
               {languages.map((lang) => (
                 <Badge key={lang} variant="secondary" className="text-xs px-1 py-0">
-                  {lang === 'Tamil' ? 'TA' : 'EN'}
+                  {languageRegistry.getBadge(lang)}
                 </Badge>
               ))}
             </div>
             <p className="text-xs text-muted-foreground">Languages</p>
+            {codeSwitching.filter(stats => stats.mixedEntries > 0).map((stats) => (
+              <p key={stats.speaker} className="text-xs text-muted-foreground">
+                {stats.speaker} mixes {Math.round(stats.ratio * 100)}%
+              </p>
+            ))}
+          </div>
+        </div>
+      </Card>
+
+      {/* Recognition Confidence */}
+      <Card className="p-4 bg-gradient-card border-border">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <Gauge className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-foreground">
+              {confidence && confidence.average !== null ? `${Math.round(confidence.average * 100)}%` : '—'}
+            </p>
+            <p className="text-xs text-muted-foreground">Avg. Confidence</p>
+            {confidence && confidence.uncertainEntries > 0 && (
+              <p className="text-xs text-destructive">
+                {confidence.uncertainEntries} to review
+              </p>
+            )}
           </div>
         </div>
       </Card>
@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Mic } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { audioPipeline } from '@/services/audio/audioPipeline';
+import { AudioProcessingSettings, setAudioProcessingSettings } from '@/services/audio/audioProcessing';
+import {
+  AudioInputDevice,
+  MultiMicConfig,
+  getConfiguredDeviceIds,
+  getMultiMicConfig,
+  getPreferredDeviceId,
+  listInputDevices,
+  onDeviceChange,
+  setMultiMicConfig,
+  setPreferredDeviceId,
+} from '@/services/audio/audioDevices';
+
+const DEFAULT_DEVICE = 'default';
+
+interface MicrophoneSettingsProps {
+  isRecording: boolean;
+}
+
+const MicrophoneSettings: React.FC<MicrophoneSettingsProps> = ({ isRecording }) => {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [preferredId, setPreferredId] = useState(() => getPreferredDeviceId() || DEFAULT_DEVICE);
+  const [multiMic, setMultiMic] = useState<MultiMicConfig>(() => getMultiMicConfig());
+  const [processing, setProcessing] = useState<AudioProcessingSettings>(() => audioPipeline.getProcessing());
+  const { toast } = useToast();
+
+  // Labels only appear once the microphone has been granted, so refresh the
+  // list when recording starts as well as on hot-plug events
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const available = await listInputDevices();
+        setDevices(available);
+
+        if (!audioPipeline.isActive) return;
+        const active = audioPipeline.getInputDeviceIds();
+        const lost = active.some(id => id && !available.some(device => device.deviceId === id));
+        if (lost) {
+          await audioPipeline.setInputDevices(getConfiguredDeviceIds());
+          toast({
+            title: "Microphone Disconnected",
+            description: "Recording continues on the remaining or default microphone",
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error('Error listing microphones:', error);
+      }
+    };
+
+    refresh();
+    return onDeviceChange(refresh);
+  }, [isRecording, toast]);
+
+  const selectDevice = (deviceId: string) => {
+    setPreferredId(deviceId);
+    const id = deviceId === DEFAULT_DEVICE ? null : deviceId;
+    setPreferredDeviceId(id);
+    if (audioPipeline.isActive && !multiMic.enabled) {
+      audioPipeline.setInputDevices([id]).catch(error => {
+        console.error('Error switching microphone:', error);
+      });
+    }
+  };
+
+  const updateProcessing = (changes: Partial<AudioProcessingSettings>) => {
+    const next = { ...processing, ...changes };
+    setProcessing(next);
+    setAudioProcessingSettings(next);
+    audioPipeline.setProcessing(next);
+  };
+
+  const updateMultiMic = (config: MultiMicConfig) => {
+    setMultiMic(config);
+    setMultiMicConfig(config);
+  };
+
+  const toggleChannel = (deviceId: string, checked: boolean) => {
+    const channels = checked
+      ? [...multiMic.channels, { deviceId, speaker: '' }]
+      : multiMic.channels.filter(channel => channel.deviceId !== deviceId);
+    updateMultiMic({ ...multiMic, channels });
+  };
+
+  const setChannelSpeaker = (deviceId: string, speaker: string) => {
+    updateMultiMic({
+      ...multiMic,
+      channels: multiMic.channels.map(channel =>
+        channel.deviceId === deviceId ? { ...channel, speaker } : channel
+      ),
+    });
+  };
+
+  return (
+    <Card className="p-4 bg-gradient-card border-border">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-foreground flex items-center">
+          <Mic className="w-5 h-5 mr-2" />
+          Microphone
+        </h3>
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="multi-mic" className="text-xs text-muted-foreground">Multi-mic</Label>
+          <Switch
+            id="multi-mic"
+            checked={multiMic.enabled}
+            disabled={isRecording}
+            onCheckedChange={(enabled) => updateMultiMic({ ...multiMic, enabled })}
+          />
+        </div>
+      </div>
+
+      {!multiMic.enabled ? (
+        <Select value={preferredId} onValueChange={selectDevice}>
+          <SelectTrigger className="text-sm">
+            <SelectValue placeholder="Microphone" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+            {devices.map((device) => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>
+                {device.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Tick each table microphone and name the person sitting at it.
+          </p>
+          {devices.map((device) => {
+            const channel = multiMic.channels.find(c => c.deviceId === device.deviceId);
+            return (
+              <div key={device.deviceId} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`mic-${device.deviceId}`}
+                  checked={!!channel}
+                  disabled={isRecording}
+                  onCheckedChange={(checked) => toggleChannel(device.deviceId, checked === true)}
+                />
+                <Label htmlFor={`mic-${device.deviceId}`} className="text-sm flex-1 truncate">
+                  {device.label}
+                </Label>
+                {channel && (
+                  <Input
+                    value={channel.speaker}
+                    placeholder="Speaker"
+                    className="h-7 w-32 text-sm"
+                    onChange={(e) => setChannelSpeaker(device.deviceId, e.target.value)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t border-border space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="noise-suppression" className="text-sm">Noise suppression</Label>
+          <Switch
+            id="noise-suppression"
+            checked={!processing.bypass}
+            onCheckedChange={(enabled) => updateProcessing({ bypass: !enabled })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">
+            Noise reduction {Math.round(processing.noiseReduction * 100)}%
+          </Label>
+          <Slider
+            value={[processing.noiseReduction]}
+            min={0}
+            max={1}
+            step={0.05}
+            disabled={processing.bypass}
+            onValueChange={([noiseReduction]) => updateProcessing({ noiseReduction })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">
+            Automatic gain {Math.round(processing.gainControl * 100)}%
+          </Label>
+          <Slider
+            value={[processing.gainControl]}
+            min={0}
+            max={1}
+            step={0.05}
+            disabled={processing.bypass}
+            onValueChange={([gainControl]) => updateProcessing({ gainControl })}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default MicrophoneSettings;
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { FileUp } from 'lucide-react';
+import {
+  RECORDING_FILE_TYPES,
+  RecordingImportPlan,
+  planRecordingImport,
+} from '@/services/audio/recordingImport';
+import { transcriptionEngineRegistry } from '@/services/transcription';
+
+interface RecordingImportDialogProps {
+  disabled?: boolean;
+  expectedLanguages: string[];
+  onFileSelected: (file: File) => void;
+}
+
+type PlanState = { plan: RecordingImportPlan; error: null } | { plan: null; error: string };
+
+const getPlan = (expectedLanguages: string[]): PlanState => {
+  try {
+    return { plan: planRecordingImport(transcriptionEngineRegistry.getSelectedId(), expectedLanguages), error: null };
+  } catch (error) {
+    return { plan: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const RecordingImportDialog: React.FC<RecordingImportDialogProps> = ({ disabled, expectedLanguages, onFileSelected }) => {
+  const [open, setOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // The engine can change between imports, so the plan is worked out on open
+  const { plan, error } = open ? getPlan(expectedLanguages) : { plan: null, error: null };
+  const languageName = plan?.language && plan.engine.languages?.[plan.language];
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setOpen(false);
+    onFileSelected(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Import recording
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Recording</DialogTitle>
+          <DialogDescription>
+            Transcribe a WAV, MP3, M4A or WebM recording of a meeting on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : plan && (
+          <div className="space-y-2 text-sm text-foreground">
+            <p>
+              Transcribed with {plan.engine.label}
+              {languageName ? `, in ${languageName} only` : ''}.
+            </p>
+            {plan.skippedLanguages.length > 0 && (
+              <p className="text-muted-foreground">
+                A recording is transcribed in one language, so speech in {plan.skippedLanguages.join(' and ')} will
+                be missing or misheard.
+              </p>
+            )}
+          </div>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={RECORDING_FILE_TYPES}
+          className="hidden"
+          onChange={handleFile}
+        />
+        <Button onClick={() => inputRef.current?.click()} disabled={!plan}>
+          Choose file
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordingImportDialog;
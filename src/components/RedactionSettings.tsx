@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { PII_CATEGORIES, compileCustomPattern } from '@/services/privacy/redaction';
+import {
+  CustomRedactionPattern,
+  getCustomRedactionPatterns,
+  getRedactionPolicy,
+  setCustomRedactionPatterns,
+} from '@/services/privacy/redactionPolicy';
+
+const RedactionSettings: React.FC = () => {
+  const [patterns, setPatterns] = useState<CustomRedactionPattern[]>(() => getCustomRedactionPatterns());
+  const [label, setLabel] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const { keepUnredactedCopy } = getRedactionPolicy();
+
+  const updatePatterns = (next: CustomRedactionPattern[]) => {
+    setPatterns(next);
+    setCustomRedactionPatterns(next);
+  };
+
+  const addPattern = () => {
+    if (!label.trim() || !pattern) return;
+    try {
+      compileCustomPattern(pattern);
+    } catch (error) {
+      setPatternError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    updatePatterns([...patterns, { id: `pattern_${Date.now()}`, label: label.trim(), pattern }]);
+    setLabel('');
+    setPattern('');
+    setPatternError(null);
+  };
+
+  return (
+    <Card className="p-4 bg-gradient-card border-border">
+      <h3 className="text-lg font-semibold text-foreground flex items-center mb-1">
+        <ShieldCheck className="w-5 h-5 mr-2" />
+        Redaction
+      </h3>
+      <p className="text-xs text-muted-foreground mb-2">
+        Masked in Tamil and English before anything is uploaded, spoken or written as digits:
+      </p>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {Object.values(PII_CATEGORIES).map((name) => (
+          <Badge key={name} variant="secondary" className="text-xs px-2 py-0">
+            {name}
+          </Badge>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        {keepUnredactedCopy
+          ? 'Policy allows the unredacted transcript to stay on this device.'
+          : 'Policy does not allow unredacted transcripts, so the transcript on this device is masked too.'}
+      </p>
+
+      <div className="space-y-1 mb-2">
+        {patterns.map((custom) => (
+          <div key={custom.id} className="flex items-center justify-between rounded-md px-2 py-1 hover:bg-muted/50">
+            <div className="min-w-0">
+              <span className="text-sm font-medium text-foreground">{custom.label}</span>
+              <p className="text-xs font-mono text-muted-foreground truncate">{custom.pattern}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updatePatterns(patterns.filter(existing => existing.id !== custom.id))}
+              title={`Remove ${custom.label}`}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-2">
+        <Input
+          value={label}
+          placeholder="Label"
+          className="h-8 w-28 text-sm"
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <Input
+          value={pattern}
+          placeholder="Pattern, e.g. EMP-\d{5}"
+          className="h-8 text-sm font-mono"
+          onChange={(e) => {
+            setPattern(e.target.value);
+            setPatternError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addPattern();
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addPattern}
+          disabled={!label.trim() || !pattern}
+          title="Add pattern"
+        >
+          <Plus className="w-3 h-3" />
+        </Button>
+      </div>
+      {patternError && (
+        <p className="text-xs text-destructive mt-1">{patternError}</p>
+      )}
+    </Card>
+  );
+};
+
+export default RedactionSettings;
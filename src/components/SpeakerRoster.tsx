@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Check, Pencil, Trash2, UserPlus, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MAX_SPEAKERS, SpeakerRoster as Roster } from '@/hooks/use-speaker-roster';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+
+interface SpeakerRosterProps {
+  roster: Roster;
+  onRename: (id: string, name: string) => void;
+}
+
+const SpeakerRoster: React.FC<SpeakerRosterProps> = ({ roster, onRename }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const {
+    speakers,
+    activeSpeaker,
+    manualMode,
+    setManualMode,
+    setActiveSpeakerId,
+    addSpeaker,
+    removeSpeaker,
+  } = roster;
+
+  // Number keys pick the active speaker, 0 clears it
+  useKeyboardShortcuts({
+    selectSpeaker: (event) => {
+      const speaker = speakers[Number(event.key) - 1];
+      if (!speaker) return;
+      setActiveSpeakerId(speaker.id);
+      setManualMode(true);
+    },
+    clearSpeaker: () => setActiveSpeakerId(null),
+  });
+
+  const startEditing = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+  };
+
+  const commitEdit = () => {
+    if (editingId) {
+      onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <Card className="p-4 bg-gradient-card border-border">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-foreground flex items-center">
+          <Users className="w-5 h-5 mr-2" />
+          Speakers
+        </h3>
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="manual-mode" className="text-xs text-muted-foreground">Manual</Label>
+          <Switch id="manual-mode" checked={manualMode} onCheckedChange={setManualMode} />
+        </div>
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {speakers.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            Speakers appear here as they are heard
+          </p>
+        )}
+        {speakers.map((speaker, index) => {
+          const isActive = activeSpeaker?.id === speaker.id;
+          return (
+            <div
+              key={speaker.id}
+              className={cn(
+                "flex items-center justify-between rounded-md px-2 py-1 cursor-pointer border",
+                isActive ? "border-primary bg-primary/10" : "border-transparent hover:bg-muted/50"
+              )}
+              onClick={() => {
+                setActiveSpeakerId(speaker.id);
+                setManualMode(true);
+              }}
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className="text-xs font-mono text-muted-foreground w-4">
+                  {index < 9 ? index + 1 : ''}
+                </span>
+                {editingId === speaker.id ? (
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    className="h-7 text-sm"
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitEdit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                  />
+                ) : (
+                  <span className="text-sm font-medium text-foreground truncate">{speaker.name}</span>
+                )}
+              </div>
+              <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                {editingId === speaker.id ? (
+                  <Button variant="ghost" size="sm" onClick={commitEdit} title="Save name">
+                    <Check className="w-3 h-3" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEditing(speaker.id, speaker.name)}
+                    title={`Rename ${speaker.name}`}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeSpeaker(speaker.id)}
+                  title={`Remove ${speaker.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        <p className="text-xs text-muted-foreground">
+          {manualMode && activeSpeaker
+            ? `Attributing to ${activeSpeaker.name}`
+            : 'Press 1-9 to set who is talking'}
+        </p>
+        <Button
+          onClick={() => {
+            const speaker = addSpeaker();
+            if (speaker) startEditing(speaker.id, speaker.name);
+          }}
+          variant="outline"
+          size="sm"
+          className="text-xs"
+          disabled={speakers.length >= MAX_SPEAKERS}
+        >
+          <UserPlus className="w-3 h-3 mr-1" />
+          Add Speaker
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default SpeakerRoster;
@@ -1,8 +1,30 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Clock, User, Globe } from 'lucide-react';
+import { Toggle } from '@/components/ui/toggle';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bookmark, CheckCircle2, Clock, User, Globe, Pause, Play, Square, TriangleAlert } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getSpeakerColor } from '@/lib/themeColors';
+import { LanguageSpan, isCodeSwitched } from '@/services/language/languageIdentifier';
+import { languageRegistry } from '@/services/language/languageRegistry';
+import {
+  TRANSLITERATION_MODES,
+  TransliterationMode,
+  transliterateSpans,
+  transliterateText,
+} from '@/services/language/transliteration';
+import { Translation } from '@/services/translation';
+import { TranscriptionWord, isLowConfidenceWord, needsReview } from '@/services/transcription';
+import { MeetingMarker, MeetingMarkerKind } from '@/services/meetingClock';
+import { VocabularyCorrection } from '@/services/vocabulary/vocabularyCorrector';
+import { Redaction } from '@/services/privacy/redaction';
 
 export interface TranscriptionEntry {
   id: string;
@@ -10,43 +32,137 @@ export interface TranscriptionEntry {
   speaker: string;
   language: string;
   timestamp: Date;
+  durationMs?: number;
+  /** Recognizer confidence from 0 to 1, when the engine reports it */
+  confidence?: number;
+  /** Recognized words with their own confidence */
+  words?: TranscriptionWord[];
+  /** Vocabulary fixes applied to the recognized text */
+  corrections?: VocabularyCorrection[];
+  /** Personal data masked out of the text */
+  redactions?: Redaction[];
+  /** Per-word language runs for code-switched speech */
+  spans?: LanguageSpan[];
+  /** The entry in the meeting's other language, when translation is on */
+  translation?: Translation;
+  /** Unconfirmed hypothesis that may still be revised by the engine */
+  interim?: boolean;
 }
 
 interface TranscriptionDisplayProps {
   transcriptions: TranscriptionEntry[];
+  interimEntry?: TranscriptionEntry | null;
+  /** Pauses, stops and bookmarks, shown between the entries around them */
+  markers?: MeetingMarker[];
 }
 
+const MARKER_ICONS: Record<MeetingMarkerKind, React.ElementType> = {
+  paused: Pause,
+  resumed: Play,
+  stopped: Square,
+  bookmark: Bookmark,
+};
+
+const formatGap = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) return `${minutes}m ${totalSeconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const describeMarker = (marker: MeetingMarker): string => {
+  switch (marker.kind) {
+    case 'paused':
+      return 'Recording paused';
+    case 'stopped':
+      return 'Recording stopped';
+    case 'bookmark':
+      return 'Bookmark';
+    case 'resumed':
+      return marker.gapMs !== undefined ? `Resumed after ${formatGap(marker.gapMs)}` : 'Recording resumed';
+  }
+};
+
+/** Slots markers in before the first entry that starts after them, keeping entry order. */
+const mergeMarkers = (
+  entries: TranscriptionEntry[],
+  markers: MeetingMarker[]
+): Array<TranscriptionEntry | MeetingMarker> => {
+  const timeline: Array<TranscriptionEntry | MeetingMarker> = [];
+  let next = 0;
+  entries.forEach(entry => {
+    while (next < markers.length && markers[next].timestamp <= entry.timestamp) {
+      timeline.push(markers[next++]);
+    }
+    timeline.push(entry);
+  });
+  return [...timeline, ...markers.slice(next)];
+};
+
 const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
   transcriptions,
+  interimEntry,
+  markers = [],
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [scriptMode, setScriptMode] = useState<TransliterationMode>('original');
+  const [reviewOnly, setReviewOnly] = useState(false);
+  const uncertain = transcriptions.filter(needsReview);
+  // Reviewing shows just the doubtful finals, without breaks or the live hypothesis
+  const timeline = reviewOnly
+    ? uncertain
+    : mergeMarkers([...transcriptions, ...(interimEntry ? [interimEntry] : [])], markers);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [transcriptions]);
-
-  const getSpeakerColor = (speaker: string): string => {
-    const speakerIndex = parseInt(speaker.split(' ')[1]) || 1;
-    const colorMap = {
-      1: 'speaker-1',
-      2: 'speaker-2',
-      3: 'speaker-3',
-      4: 'speaker-4',
-      5: 'speaker-5',
-    };
-    return colorMap[speakerIndex as keyof typeof colorMap] || 'speaker-1';
-  };
+  }, [transcriptions, interimEntry, markers.length, reviewOnly]);
 
   const formatTime = (date: Date): string => {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
   };
 
-  const getLanguageFlag = (language: string): string => {
-    return language === 'Tamil' ? '🇮🇳' : '🇺🇸';
+  // Transliteration only changes what is shown; entries keep the original text
+  const renderText = (entry: TranscriptionEntry): React.ReactNode => {
+    // Doubtful words are underlined, as long as the words still match the text
+    if (entry.words?.some(isLowConfidenceWord) && entry.words.map(word => word.text).join(' ') === entry.text) {
+      return renderWords(entry.words);
+    }
+    if (!entry.spans || !isCodeSwitched(entry.spans)) {
+      return transliterateText(entry.text, entry.spans, scriptMode);
+    }
+
+    return transliterateSpans(entry.spans, scriptMode).map((span, index) => (
+      <span
+        key={index}
+        title={span.romanized ? `${span.language} (romanized)` : span.language}
+        className={cn(
+          languageRegistry.getByName(span.language)?.script && 'text-primary',
+          span.romanized && 'underline decoration-dotted underline-offset-4'
+        )}
+      >
+        {span.text}
+      </span>
+    ));
   };
 
+  const renderWords = (words: TranscriptionWord[]): React.ReactNode =>
+    words.map((word, index) => (
+      <React.Fragment key={index}>
+        {index > 0 && ' '}
+        <span
+          title={`${Math.round(word.confidence * 100)}% confident`}
+          className={cn(
+            isLowConfidenceWord(word) && 'underline decoration-wavy decoration-destructive/70 underline-offset-4'
+          )}
+        >
+          {transliterateText(word.text, undefined, scriptMode)}
+        </span>
+      </React.Fragment>
+    ));
+
   return (
     <Card className="flex flex-col h-96 bg-gradient-card border-border">
       <div className="flex items-center justify-between p-4 border-b border-border">
@@ -54,71 +170,175 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
           <User className="w-5 h-5 mr-2" />
           Live Transcription
         </h3>
-        <Badge variant="secondary" className="text-xs">
-          {transcriptions.length} entries
-        </Badge>
+        <div className="flex items-center space-x-2">
+          {(uncertain.length > 0 || reviewOnly) && (
+            <Toggle
+              size="sm"
+              variant="outline"
+              pressed={reviewOnly}
+              onPressedChange={setReviewOnly}
+              className="h-7 text-xs"
+              title="Show only entries the recognizer was unsure about"
+            >
+              <TriangleAlert className="w-3 h-3 mr-1" />
+              Review uncertain ({uncertain.length})
+            </Toggle>
+          )}
+          <Select value={scriptMode} onValueChange={(mode) => setScriptMode(mode as TransliterationMode)}>
+            <SelectTrigger className="h-7 w-32 text-xs" title="Tamil script">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TRANSLITERATION_MODES).map(([mode, label]) => (
+                <SelectItem key={mode} value={mode} className="text-xs">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant="secondary" className="text-xs">
+            {transcriptions.length} entries
+          </Badge>
+        </div>
       </div>
       
       <div
         ref={scrollRef}
         className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin scrollbar-track-background scrollbar-thumb-muted"
       >
-        {transcriptions.length === 0 ? (
+        {reviewOnly && uncertain.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
+            <CheckCircle2 className="w-12 h-12 mb-4 opacity-50" />
+            <p className="text-center">Nothing left to review</p>
+          </div>
+        ) : timeline.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
             <Globe className="w-12 h-12 mb-4 opacity-50" />
             <p className="text-center">
               Start recording to see live transcriptions
               <br />
-              <span className="text-sm">Supports Tamil & English</span>
+              <span className="text-sm">Supports {languageRegistry.describe()}</span>
             </p>
           </div>
         ) : (
-          transcriptions.map((entry) => (
-            <div
-              key={entry.id}
-              className="group relative bg-card/50 rounded-lg p-4 border border-border/50 hover:border-border transition-colors"
-            >
-              {/* Speaker and Language Header */}
-              <div className="flex items-center justify-between mb-2">
-                <div className="flex items-center space-x-2">
-                  <div
-                    className={cn(
-                      "w-3 h-3 rounded-full",
-                      `bg-${getSpeakerColor(entry.speaker)}`
-                    )}
-                  />
-                  <span className="text-sm font-medium text-foreground">
-                    {entry.speaker}
+          timeline.map((entry) => {
+            if ('kind' in entry) {
+              const Icon = MARKER_ICONS[entry.kind];
+              return (
+                <div
+                  key={entry.id}
+                  className={cn(
+                    "flex items-center space-x-3 text-xs",
+                    entry.kind === 'bookmark' ? "text-primary" : "text-muted-foreground"
+                  )}
+                >
+                  <div className="flex-1 border-t border-dashed border-border" />
+                  <span className="flex items-center">
+                    <Icon className="w-3 h-3 mr-1" />
+                    {describeMarker(entry)} • {formatTime(entry.timestamp)}
                   </span>
+                  <div className="flex-1 border-t border-dashed border-border" />
                 </div>
-                <div className="flex items-center space-x-2">
-                  <span className="text-xs">
-                    {getLanguageFlag(entry.language)}
-                  </span>
-                  <Badge variant="outline" className="text-xs px-2 py-0">
-                    {entry.language}
-                  </Badge>
+              );
+            }
+
+            return (
+              <div
+                key={entry.id}
+                className={cn(
+                  "group relative bg-card/50 rounded-lg p-4 border border-border/50 hover:border-border transition-colors",
+                  entry.interim && "border-dashed opacity-60"
+                )}
+              >
+                {/* Speaker and Language Header */}
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-2">
+                    <div
+                      className={cn(
+                        "w-3 h-3 rounded-full",
+                        `bg-${getSpeakerColor(entry.speaker)}`
+                      )}
+                    />
+                    <span className="text-sm font-medium text-foreground">
+                      {entry.speaker}
+                    </span>
+                    {entry.interim && (
+                      <span className="text-xs text-muted-foreground">listening…</span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs">
+                      {languageRegistry.getFlag(entry.language)}
+                    </span>
+                    <Badge variant="outline" className="text-xs px-2 py-0">
+                      {entry.language}
+                    </Badge>
+                    {entry.spans && isCodeSwitched(entry.spans) && (
+                      <Badge variant="secondary" className="text-xs px-2 py-0">
+                        Mixed
+                      </Badge>
+                    )}
+                    {entry.corrections && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs px-2 py-0"
+                        title={entry.corrections.map(correction => `"${correction.from}" → ${correction.to}`).join('\n')}
+                      >
+                        Corrected
+                      </Badge>
+                    )}
+                    {entry.redactions && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs px-2 py-0"
+                        title={`${entry.redactions.length} item${entry.redactions.length === 1 ? '' : 's'} of personal data masked`}
+                      >
+                        Redacted
+                      </Badge>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              {/* Transcription Text */}
-              <p className={cn(
-                "text-foreground leading-relaxed mb-3",
-                entry.language === 'Tamil' ? 'font-medium' : ''
-              )}>
-                {entry.text}
-              </p>
-
-              {/* Timestamp */}
-              <div className="flex items-center text-xs text-muted-foreground">
-                <Clock className="w-3 h-3 mr-1" />
-                {formatTime(entry.timestamp)}
-              </div>
+                {/* Transcription Text */}
+                <p
+                  className={cn(
+                    "text-foreground leading-relaxed mb-3",
+                    languageRegistry.getByName(entry.language)?.script ? 'font-medium' : '',
+                    entry.interim && 'italic text-muted-foreground'
+                  )}
+                  style={{ fontFamily: languageRegistry.getByName(entry.language)?.fontFamily }}
+                >
+                  {renderText(entry)}
+                </p>
 
-              {/* Hover effect indicator */}
-              <div className="absolute inset-0 rounded-lg bg-gradient-to-r from-primary/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
-            </div>
-          ))
+                {/* Translation */}
+                {entry.translation && (
+                  <p
+                    className="text-sm text-muted-foreground leading-relaxed border-l-2 border-border pl-3 mb-3"
+                    title={`Translated to ${entry.translation.language}`}
+                    style={{ fontFamily: languageRegistry.getByName(entry.translation.language)?.fontFamily }}
+                  >
+                    <span className="text-xs mr-2">{languageRegistry.getBadge(entry.translation.language)}</span>
+                    {entry.translation.text}
+                  </p>
+                )}
+
+                {/* Timestamp */}
+                <div className="flex items-center text-xs text-muted-foreground">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {formatTime(entry.timestamp)}
+                  {entry.confidence !== undefined && (
+                    <span className={cn("ml-3", needsReview(entry) && "text-destructive")}>
+                      {Math.round(entry.confidence * 100)}% confidence
+                    </span>
+                  )}
+                </div>
+
+                {/* Hover effect indicator */}
+                <div className="absolute inset-0 rounded-lg bg-gradient-to-r from-primary/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+              </div>
+            );
+          })
         )}
       </div>
     </Card>
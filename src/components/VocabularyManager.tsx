@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BookText, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { languageRegistry } from '@/services/language/languageRegistry';
+import { transcriptionEngineRegistry } from '@/services/transcription';
+import { VocabularyTerm, vocabularyStore } from '@/services/vocabulary/vocabularyStore';
+
+const ANY_LANGUAGE = 'any';
+
+interface TermDraft {
+  id: string | null;
+  term: string;
+  language: string;
+  aliases: string;
+  phoneticVariants: string;
+}
+
+const EMPTY_DRAFT: TermDraft = { id: null, term: '', language: ANY_LANGUAGE, aliases: '', phoneticVariants: '' };
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const VocabularyManager: React.FC = () => {
+  const [terms, setTerms] = useState<VocabularyTerm[]>(() => vocabularyStore.list());
+  const [draft, setDraft] = useState<TermDraft>(EMPTY_DRAFT);
+  const hintEngines = transcriptionEngineRegistry.list()
+    .filter(descriptor => descriptor.acceptsHints)
+    .map(descriptor => descriptor.label);
+
+  const saveDraft = () => {
+    const term = draft.term.trim();
+    if (!term) return;
+
+    vocabularyStore.save({
+      id: draft.id || `term_${Date.now()}`,
+      term,
+      language: draft.language === ANY_LANGUAGE ? null : draft.language,
+      aliases: splitList(draft.aliases),
+      phoneticVariants: splitList(draft.phoneticVariants),
+    });
+    setTerms(vocabularyStore.list());
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const editTerm = (term: VocabularyTerm) => {
+    setDraft({
+      id: term.id,
+      term: term.term,
+      language: term.language || ANY_LANGUAGE,
+      aliases: term.aliases.join(', '),
+      phoneticVariants: term.phoneticVariants.join(', '),
+    });
+  };
+
+  const deleteTerm = (id: string) => {
+    vocabularyStore.delete(id);
+    setTerms(vocabularyStore.list());
+    if (draft.id === id) setDraft(EMPTY_DRAFT);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') saveDraft();
+    if (event.key === 'Escape') setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <Card className="p-4 bg-gradient-card border-border">
+      <h3 className="text-lg font-semibold text-foreground flex items-center mb-1">
+        <BookText className="w-5 h-5 mr-2" />
+        Vocabulary
+      </h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Misheard names are corrected in every entry before it is shown or saved.
+        {hintEngines.length > 0 && ` ${hintEngines.join(' and ')} also listen for them.`}
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex space-x-2">
+          <Input
+            value={draft.term}
+            placeholder="Term, e.g. Kubernetes"
+            className="h-8 text-sm"
+            onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+            onKeyDown={handleKeyDown}
+          />
+          <Select value={draft.language} onValueChange={(language) => setDraft({ ...draft, language })}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_LANGUAGE} className="text-xs">Any language</SelectItem>
+              {languageRegistry.list().map((language) => (
+                <SelectItem key={language.code} value={language.name} className="text-xs">
+                  {language.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Input
+          value={draft.aliases}
+          placeholder="Other spellings, comma separated"
+          className="h-8 text-sm"
+          onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+          onKeyDown={handleKeyDown}
+        />
+        <Input
+          value={draft.phoneticVariants}
+          placeholder="Sounds like, e.g. cooper netties"
+          className="h-8 text-sm"
+          onChange={(e) => setDraft({ ...draft, phoneticVariants: e.target.value })}
+          onKeyDown={handleKeyDown}
+        />
+        <div className="flex justify-end space-x-2">
+          {draft.id && (
+            <Button variant="ghost" size="sm" className="text-xs" onClick={() => setDraft(EMPTY_DRAFT)}>
+              <X className="w-3 h-3 mr-1" />
+              Cancel
+            </Button>
+          )}
+          <Button variant="outline" size="sm" className="text-xs" onClick={saveDraft} disabled={!draft.term.trim()}>
+            <Plus className="w-3 h-3 mr-1" />
+            {draft.id ? 'Save Term' : 'Add Term'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto mt-3">
+        {terms.map((term) => (
+          <div
+            key={term.id}
+            className="flex items-center justify-between rounded-md px-2 py-1 hover:bg-muted/50"
+          >
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium text-foreground truncate">{term.term}</span>
+                {term.language && (
+                  <Badge variant="outline" className="text-xs px-1 py-0">
+                    {languageRegistry.getBadge(term.language)}
+                  </Badge>
+                )}
+              </div>
+              {(term.aliases.length > 0 || term.phoneticVariants.length > 0) && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {[...term.aliases, ...term.phoneticVariants].join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => editTerm(term)} title={`Edit ${term.term}`}>
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteTerm(term.id)} title={`Remove ${term.term}`}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default VocabularyManager;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Mic, Trash2, UserCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { recordVoiceSample } from '@/services/speakers/enrollment';
+import { VoiceProfile, voiceProfileStore } from '@/services/speakers/voiceProfileStore';
+import { languageRegistry } from '@/services/language/languageRegistry';
+
+interface VoiceEnrollmentProps {
+  disabled?: boolean;
+}
+
+const VoiceEnrollment: React.FC<VoiceEnrollmentProps> = ({ disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [profiles, setProfiles] = useState<VoiceProfile[]>([]);
+  const [name, setName] = useState('');
+  const [employeeId, setEmployeeId] = useState('');
+  const [preferredLanguage, setPreferredLanguage] = useState('Tamil');
+  const [embedding, setEmbedding] = useState<Float32Array | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await voiceProfileStore.list());
+    } catch (error) {
+      console.error('Error loading voice profiles:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadProfiles();
+    }
+  }, [open]);
+
+  const resetForm = () => {
+    setName('');
+    setEmployeeId('');
+    setPreferredLanguage('Tamil');
+    setEmbedding(null);
+  };
+
+  const recordSample = async () => {
+    setEmbedding(null);
+    setProgress(0);
+    try {
+      setEmbedding(await recordVoiceSample(setProgress));
+    } catch (error) {
+      toast({
+        title: "Sample Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const saveProfile = async () => {
+    if (!embedding) return;
+
+    const existing = profiles.find(profile => profile.employeeId === employeeId.trim());
+    try {
+      await voiceProfileStore.save({
+        employeeId: employeeId.trim(),
+        name: name.trim(),
+        preferredLanguage,
+        embedding,
+        enrolledAt: existing?.enrolledAt || new Date(),
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      console.error('Error saving voice profile:', error);
+      toast({
+        title: "Profile Not Saved",
+        description: "The voice profile could not be stored on this device",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Voice Enrolled",
+      description: `${name.trim()} will be recognised in future meetings`,
+    });
+    resetForm();
+    loadProfiles();
+  };
+
+  const deleteProfile = async (id: string) => {
+    try {
+      await voiceProfileStore.delete(id);
+    } catch (error) {
+      console.error('Error deleting voice profile:', error);
+      toast({
+        title: "Profile Not Removed",
+        description: "The voice profile could not be removed from this device",
+        variant: "destructive",
+      });
+      return;
+    }
+    loadProfiles();
+  };
+
+  const isRecordingSample = progress !== null;
+  const canSave = !!embedding && name.trim() !== '' && employeeId.trim() !== '';
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <UserCheck className="w-4 h-4 mr-2" />
+          Voices
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Voice Profiles</DialogTitle>
+          <DialogDescription>
+            Enrolled employees are named in the transcript instead of "Speaker N". Profiles stay on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Enrollment Form */}
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="enroll-name">Name</Label>
+              <Input id="enroll-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="enroll-id">Employee ID</Label>
+              <Input id="enroll-id" value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Preferred language</Label>
+            <Select value={preferredLanguage} onValueChange={setPreferredLanguage}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {languageRegistry.list().map((language) => (
+                  <SelectItem key={language.code} value={language.name}>{language.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isRecordingSample ? (
+            <div className="space-y-1">
+              <Progress value={progress * 100} />
+              <p className="text-xs text-muted-foreground">Keep speaking naturally…</p>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between">
+              <Button variant="secondary" size="sm" onClick={recordSample}>
+                <Mic className="w-4 h-4 mr-2" />
+                {embedding ? 'Re-record sample' : 'Record voice sample'}
+              </Button>
+              {embedding && <Badge variant="secondary" className="text-xs">Sample captured</Badge>}
+            </div>
+          )}
+
+          <Button className="w-full" onClick={saveProfile} disabled={!canSave || isRecordingSample}>
+            Save profile
+          </Button>
+        </div>
+
+        {/* Enrolled Profiles */}
+        <div className="border-t border-border pt-3 space-y-2 max-h-60 overflow-y-auto">
+          {profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">No voices enrolled yet</p>
+          ) : (
+            profiles.map((profile) => (
+              <div key={profile.employeeId} className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium text-foreground">{profile.name}</span>
+                  <span className="text-muted-foreground ml-2 font-mono text-xs">{profile.employeeId}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline" className="text-xs px-2 py-0">{profile.preferredLanguage}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteProfile(profile.employeeId)}
+                    title={`Remove ${profile.name}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VoiceEnrollment;
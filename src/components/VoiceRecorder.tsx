@@ -1,225 +1,403 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Mic, MicOff, Pause, Play, Square, User } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileText, Mic, Pause, Play, RotateCcw, Square } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import AudioVisualizer from '@/components/AudioVisualizer';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import {
+  transcriptionEngineRegistry,
+  TranscriptionEngine,
+  TranscriptionEngineError,
+  TranscriptionSegment,
+  SegmentConfidence,
+  loadActiveScenario,
+  saveActiveScenario,
+  clearActiveScenario,
+} from '@/services/transcription';
+import { MeetingRecorder } from '@/services/audio/meetingRecorder';
+import { audioPipeline } from '@/services/audio/audioPipeline';
+import { getChannelSpeaker, getConfiguredDeviceIds } from '@/services/audio/audioDevices';
+import { ChannelActivityTracker } from '@/services/audio/channelActivityTracker';
+import {
+  VoiceActivityDetector,
+  VoiceActivityStats,
+} from '@/services/audio/voiceActivityDetector';
+import { DiarizationService } from '@/services/speakers/diarizationService';
+import { voiceProfileStore } from '@/services/speakers/voiceProfileStore';
+import { vocabularyStore } from '@/services/vocabulary/vocabularyStore';
 
 interface VoiceRecorderProps {
-  onTranscription: (text: string, speaker: string, language: string, timestamp: Date) => void;
+  onTranscription: (
+    text: string,
+    speaker: string,
+    language: string,
+    timestamp: Date,
+    durationMs?: number,
+    scores?: SegmentConfidence
+  ) => void;
+  /** Receives the engine's live hypothesis, or null once it is committed or dropped */
+  onInterimTranscription?: (segment: TranscriptionSegment | null) => void;
   isRecording: boolean;
   onRecordingChange: (recording: boolean) => void;
-  onAddSpeaker?: () => void;
+  onPauseChange?: (paused: boolean) => void;
+  speakerCount: number;
+  onVoiceActivity?: (stats: VoiceActivityStats) => void;
+  meetingId: string;
+  /** Display names of the languages the host expects in this meeting */
+  expectedLanguages: string[];
+  /** Blocks starting a recording, e.g. while a file is being imported */
+  disabled?: boolean;
+  /** Speaker picked by hand on the roster, which outranks detection */
+  activeSpeaker?: string | null;
 }
 
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
-  }
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  onresult: (event: any) => void;
-  onerror: (event: any) => void;
-  onend: () => void;
-}
+// Keeps the engine listening briefly after the talk key is released so the
+// last word is not clipped
+const PUSH_TO_TALK_TAIL_MS = 300;
+// How far back the visualizer looks for the loudest microphone
+const CURRENT_SPEAKER_WINDOW_MS = 500;
 
 const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
   onTranscription,
+  onInterimTranscription,
   isRecording,
   onRecordingChange,
-  onAddSpeaker,
+  onPauseChange,
+  speakerCount,
+  onVoiceActivity,
+  meetingId,
+  expectedLanguages,
+  disabled,
+  activeSpeaker,
 }) => {
   const [isPaused, setIsPaused] = useState(false);
-  const [audioLevel, setAudioLevel] = useState(0);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const meetingRecorderRef = useRef<MeetingRecorder | null>(null);
+  const [audioReady, setAudioReady] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [vad] = useState(() => new VoiceActivityDetector());
+  const [diarization] = useState(() => new DiarizationService());
+  const [channelTracker] = useState(() => new ChannelActivityTracker());
+  const lastDiarizedSpeakerRef = useRef<string | null>(null);
+  const engineRef = useRef<TranscriptionEngine | null>(null);
+  const [engineReady, setEngineReady] = useState(false);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const talkTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [engineId, setEngineId] = useState(() => transcriptionEngineRegistry.getSelectedId());
+  const [recognitionLanguage, setRecognitionLanguage] = useState('ta-IN');
+  const [engineNotice, setEngineNotice] = useState<TranscriptionEngineError | null>(null);
+  const engineDescriptor = transcriptionEngineRegistry.get(engineId);
+  const supportedLanguages = engineDescriptor?.languages;
+  const engineLanguages = supportedLanguages && Object.fromEntries(
+    Object.entries(supportedLanguages).filter(([, name]) => expectedLanguages.includes(name))
+  );
+  // Fall back to the first expected locale when the last pick was deselected
+  const activeLanguage = engineLanguages && !engineLanguages[recognitionLanguage]
+    ? Object.keys(engineLanguages)[0] || recognitionLanguage
+    : recognitionLanguage;
+  const [scenarioName, setScenarioName] = useState(() => loadActiveScenario().name);
+  const scenarioInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    if (isRecording && !isPaused) {
-      startAudioLevelDetection();
+    const analyser = audioPipeline.getAnalyser();
+    if (!isRecording || isPaused || !audioReady || !analyser) return;
+
+    const unsubscribeStart = vad.on('speechstart', () => setIsSpeaking(true));
+    const unsubscribeEnd = vad.on('speechend', () => setIsSpeaking(false));
+    const unsubscribeSegment = diarization.on('segment', (segment) => {
+      lastDiarizedSpeakerRef.current = segment.speaker;
+    });
+    vad.start(analyser);
+    channelTracker.start();
+    diarization.start(vad).catch(error => {
+      console.error('Error starting speaker diarization:', error);
+    });
+
+    const statsInterval = setInterval(() => onVoiceActivity?.(vad.getStats()), 1000);
+
+    return () => {
+      clearInterval(statsInterval);
+      diarization.stop();
+      channelTracker.stop();
+      vad.stop();
+      unsubscribeStart();
+      unsubscribeEnd();
+      unsubscribeSegment();
+      setIsSpeaking(false);
+      onVoiceActivity?.(vad.getStats());
+    };
+  }, [isRecording, isPaused, audioReady, vad, diarization, channelTracker, onVoiceActivity]);
+
+  // Engine listeners live for the whole recording, so read the latest callback
+  const onTranscriptionRef = useRef(onTranscription);
+  onTranscriptionRef.current = onTranscription;
+  const onInterimRef = useRef(onInterimTranscription);
+  onInterimRef.current = onInterimTranscription;
+
+  // In push-to-talk mode the engine only hears audio while the key is held;
+  // the archive, VAD and meeting clock keep running throughout
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engineReady || !engine || isPaused) return;
+    if (!pushToTalk || isTalking) {
+      engine.resume();
     } else {
-      stopAudioLevelDetection();
+      engine.pause();
     }
+  }, [engineReady, isPaused, pushToTalk, isTalking]);
 
+  useEffect(() => {
     return () => {
-      stopAudioLevelDetection();
+      if (talkTimerRef.current) clearTimeout(talkTimerRef.current);
+      engineRef.current?.stop();
+      engineRef.current = null;
+      meetingRecorderRef.current?.stop();
+      meetingRecorderRef.current = null;
+      audioPipeline.stop();
     };
-  }, [isRecording, isPaused]);
+  }, []);
 
-  const startAudioLevelDetection = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-      
-      const audioContext = new AudioContext();
-      const analyser = audioContext.createAnalyser();
-      const microphone = audioContext.createMediaStreamSource(stream);
-      
-      microphone.connect(analyser);
-      
-      analyser.fftSize = 256;
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
-      
-      const updateAudioLevel = () => {
-        if (analyser && isRecording && !isPaused) {
-          analyser.getByteFrequencyData(dataArray);
-          const average = dataArray.reduce((a, b) => a + b) / bufferLength;
-          setAudioLevel(average / 255);
-          requestAnimationFrame(updateAudioLevel);
-        }
-      };
-      
-      updateAudioLevel();
-    } catch (error) {
-      console.error('Error accessing microphone:', error);
+  const setTalking = (talking: boolean) => {
+    if (talkTimerRef.current) {
+      clearTimeout(talkTimerRef.current);
+      talkTimerRef.current = null;
+    }
+    if (talking) {
+      setIsTalking(true);
+    } else {
+      talkTimerRef.current = setTimeout(() => setIsTalking(false), PUSH_TO_TALK_TAIL_MS);
     }
   };
 
-  const stopAudioLevelDetection = () => {
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
+  const handlePushToTalkChange = (enabled: boolean) => {
+    if (talkTimerRef.current) {
+      clearTimeout(talkTimerRef.current);
+      talkTimerRef.current = null;
     }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
+    setIsTalking(false);
+    setPushToTalk(enabled);
+  };
+
+  // Called by the visualizer every frame, so it reads trackers rather than state
+  const activeSpeakerRef = useRef(activeSpeaker);
+  activeSpeakerRef.current = activeSpeaker;
+  const getCurrentSpeaker = () => {
+    if (activeSpeakerRef.current) return activeSpeakerRef.current;
+    const now = Date.now();
+    const channel = channelTracker.dominantChannel(new Date(now - CURRENT_SPEAKER_WINDOW_MS), new Date(now));
+    const channelSpeaker = channel !== null ? getChannelSpeaker(audioPipeline.getInputDeviceIds()[channel]) : null;
+    return channelSpeaker || lastDiarizedSpeakerRef.current;
+  };
+
+  const handleEngineChange = (id: string) => {
+    setEngineId(id);
+    setEngineNotice(null);
+    transcriptionEngineRegistry.setSelectedId(id);
+  };
+
+  const handleScenarioFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const scenario = saveActiveScenario(await file.text());
+      setScenarioName(scenario.name);
+      setEngineNotice(null);
+    } catch (error) {
+      setEngineNotice({
+        code: 'scenario',
+        message: error instanceof Error ? error.message : String(error),
+        recoverable: true,
+      });
     }
-    setAudioLevel(0);
   };
 
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const speakerCountRef = useRef(1);
+  const resetScenario = () => {
+    clearActiveScenario();
+    setScenarioName(loadActiveScenario().name);
+  };
+
+  const handleLanguageChange = (language: string) => {
+    setRecognitionLanguage(language);
+    engineRef.current?.setLanguage?.(language);
+  };
 
   const startRecording = async () => {
     try {
       onRecordingChange(true);
       setIsPaused(false);
-      
-      // Always use mock transcription for reliable offline operation
-      startMockTranscription();
-      
+      setEngineNotice(null);
+      // A restart continues the meeting, like the meeting clock, so speech
+      // statistics and speaker labels carry on from before the stop. Only
+      // the live "who is talking" signals start afresh.
+      channelTracker.reset();
+      lastDiarizedSpeakerRef.current = null;
+      await loadVoiceProfiles();
+
+      try {
+        await audioPipeline.setInputDevices(getConfiguredDeviceIds());
+        await audioPipeline.start();
+        setAudioReady(true);
+      } catch (error) {
+        // Engines that bring their own audio (scripted demos, Web Speech)
+        // still work without the shared microphone stream
+        console.error('Error accessing microphone:', error);
+      }
+
+      const engine = transcriptionEngineRegistry.create(engineId);
+      engine.on('interim', (segment) => onInterimRef.current?.(segment));
+      engine.on('final', (segment) => {
+        onInterimRef.current?.(null);
+        // Engines without word timings get the boundaries of the utterance
+        // the VAD heard, so entries line up with when people actually spoke
+        const utterance = segment.durationMs === undefined ? vad.findUtterance(segment.timestamp) : null;
+        const spanStart = utterance?.startedAt || segment.timestamp;
+        const spanEnd = utterance?.endedAt || new Date(segment.timestamp.getTime() + (segment.durationMs || 0));
+        // With a microphone per seat, the loudest channel is the best speaker signal
+        const channel = channelTracker.dominantChannel(spanStart, spanEnd);
+        const channelSpeaker = channel !== null ? getChannelSpeaker(audioPipeline.getInputDeviceIds()[channel]) : null;
+
+        onTranscriptionRef.current(
+          segment.text,
+          segment.speaker || channelSpeaker || diarization.speakerFor(utterance) || 'Speaker 1',
+          segment.language,
+          spanStart,
+          segment.durationMs ?? utterance?.durationMs,
+          segment
+        );
+      });
+      engine.on('final', () => setEngineNotice(null));
+      engine.on('error', (error) => {
+        console.error(`Transcription engine error (${error.code}):`, error.message);
+        setEngineNotice(error);
+        if (!error.recoverable) {
+          stopRecording();
+        }
+      });
+      engineRef.current = engine;
+
+      await engine.start({ language: activeLanguage, hints: vocabularyStore.getHints(expectedLanguages) });
+      // Stopped while starting, by the user or by a failing engine
+      if (engineRef.current !== engine) return;
+      setEngineReady(true);
+      await startAudioCapture();
     } catch (error) {
       console.error('Error starting recording:', error);
-      startMockTranscription();
+      // Roll back so the clock stops and the microphone is released
+      stopRecording();
     }
   };
 
-  const startMockTranscription = () => {
-    const sampleTexts = [
-      "Good morning everyone, let's start the meeting",
-      "நல்ல காலை அனைவருக்கும், கூட்டத்தை தொடங்குவோம்",
-      "I think we should focus on the quarterly targets",
-      "நான் நினைக்கிறேன் நாம் காலாண்டு இலக்குகளில் கவனம் செலுத்த வேண்டும்",
-      "The project is progressing well according to schedule",
-      "திட்டம் அட்டவணையின் படி நன்றாக முன்னேறுகிறது",
-      "We need to address the technical challenges",
-      "நாம் தொழில்நுட்ப சவால்களை தீர்க்க வேண்டும்",
-      "What are your thoughts on the new proposal?",
-      "புதிய முன்மொழிவு பற்றி உங்கள் கருத்து என்ன?",
-      "I agree with the previous speaker's points",
-      "முந்தைய பேச்சாளரின் கருத்துகளுடன் நான் உடன்படுகிறேன்"
-    ];
-    
-    let speakerIndex = 1;
-    
-    const mockInterval = setInterval(() => {
-      if (!isRecording || isPaused) {
-        clearInterval(mockInterval);
-        return;
-      }
-      
-      const randomText = sampleTexts[Math.floor(Math.random() * sampleTexts.length)];
-      const currentSpeaker = `Speaker ${speakerIndex}`;
-      const isTamil = /[\u0B80-\u0BFF]/.test(randomText);
-      const language = isTamil ? 'Tamil' : 'English';
-      
-      onTranscription(randomText, currentSpeaker, language, new Date());
-      
-      // Cycle through speakers 1-3
-      speakerIndex = (speakerIndex % 3) + 1;
-    }, 2000 + Math.random() * 3000);
+  const loadVoiceProfiles = async () => {
+    try {
+      const profiles = await voiceProfileStore.list();
+      diarization.diarizer.setKnownSpeakers(profiles.map(profile => ({
+        id: profile.employeeId,
+        label: profile.name,
+        embedding: profile.embedding,
+      })));
+    } catch (error) {
+      // Anonymous speaker labels still work without enrolled profiles
+      console.error('Error loading voice profiles:', error);
+    }
+  };
+
+  const startAudioCapture = async () => {
+    if (!MeetingRecorder.isSupported() || !audioPipeline.isActive) return;
+
+    const recorder = new MeetingRecorder();
+    try {
+      await recorder.start(meetingId);
+      meetingRecorderRef.current = recorder;
+    } catch (error) {
+      // Transcription can carry on without the raw audio archive
+      console.error('Error starting audio capture:', error);
+    }
   };
 
   const pauseRecording = () => {
+    engineRef.current?.pause();
+    meetingRecorderRef.current?.pause();
+    onInterimRef.current?.(null);
     setIsPaused(true);
+    onPauseChange?.(true);
   };
 
   const resumeRecording = () => {
+    if (!pushToTalk || isTalking) {
+      engineRef.current?.resume();
+    }
+    meetingRecorderRef.current?.resume();
     setIsPaused(false);
+    onPauseChange?.(false);
   };
 
   const stopRecording = () => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-      recognitionRef.current = null;
+    if (engineRef.current) {
+      engineRef.current.stop();
+      engineRef.current = null;
     }
+    if (meetingRecorderRef.current) {
+      meetingRecorderRef.current.stop().catch(error => {
+        console.error('Error finalizing audio capture:', error);
+      });
+      meetingRecorderRef.current = null;
+    }
+    audioPipeline.stop();
+    setAudioReady(false);
+    setEngineReady(false);
+    onInterimRef.current?.(null);
     onRecordingChange(false);
     setIsPaused(false);
   };
 
+  useKeyboardShortcuts({
+    toggleRecording: () => {
+      if (isRecording) {
+        stopRecording();
+      } else if (!disabled) {
+        startRecording();
+      }
+    },
+    togglePause: () => {
+      if (!isRecording) return;
+      if (isPaused) {
+        resumeRecording();
+      } else {
+        pauseRecording();
+      }
+    },
+    togglePushToTalk: () => handlePushToTalkChange(!pushToTalk),
+    // Space is only claimed while push-to-talk is on
+    ...(pushToTalk ? { pushToTalk: (event: KeyboardEvent) => setTalking(event.type === 'keydown') } : {}),
+  });
+
+  const listeningStatus = pushToTalk
+    ? isTalking ? "Recording • Talking" : "Recording • Hold Space to talk"
+    : isSpeaking ? "Recording • Speech Detected" : "Recording • Listening";
+
   return (
     <Card className="p-6 bg-gradient-card border-border">
       <div className="flex flex-col items-center space-y-6">
-        {/* Voice Level Visualization */}
-        <div className="flex items-center justify-center w-32 h-32 relative">
-          <div className={cn(
-            "absolute inset-0 rounded-full border-4 transition-all duration-300",
-            isRecording && !isPaused
-              ? "border-recording animate-pulse-recording shadow-recording"
-              : "border-muted"
-          )}>
-            <div 
-              className={cn(
-                "absolute inset-2 rounded-full transition-all duration-75",
-                isRecording && !isPaused
-                  ? "bg-gradient-recording"
-                  : "bg-muted"
-              )}
-              style={{
-                transform: `scale(${0.3 + audioLevel * 0.7})`,
-                opacity: 0.6 + audioLevel * 0.4
-              }}
-            />
-          </div>
-          <div className="relative z-10">
-            {isRecording ? (
-              isPaused ? (
-                <Pause className="w-8 h-8 text-foreground" />
-              ) : (
-                <Mic className="w-8 h-8 text-recording-foreground" />
-              )
-            ) : (
-              <MicOff className="w-8 h-8 text-muted-foreground" />
-            )}
-          </div>
-        </div>
-
-        {/* Audio Level Bars */}
-        <div className="flex items-end space-x-1 h-8">
-          {[...Array(5)].map((_, i) => (
-            <div
-              key={i}
-              className={cn(
-                "w-2 bg-voice-wave rounded-t transition-all duration-75",
-                audioLevel * 5 > i ? "animate-wave-bounce" : "bg-voice-inactive"
-              )}
-              style={{
-                height: `${Math.max(4, (audioLevel * 5 > i ? audioLevel * 32 : 4))}px`,
-                animationDelay: `${i * 0.1}s`
-              }}
-            />
-          ))}
-        </div>
+        {/* Waveform and Spectrogram */}
+        <AudioVisualizer
+          active={isRecording && !isPaused && audioReady}
+          paused={isRecording && isPaused}
+          vad={vad}
+          getSpeaker={getCurrentSpeaker}
+          className="w-full h-32"
+        />
 
         {/* Controls */}
         <div className="flex flex-col space-y-4">
@@ -227,6 +405,7 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
             {!isRecording ? (
               <Button
                 onClick={startRecording}
+                disabled={disabled}
                 className="bg-gradient-primary hover:opacity-90 px-8 py-3 text-lg font-semibold shadow-primary"
               >
                 <Mic className="w-5 h-5 mr-2" />
@@ -265,24 +444,93 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
             )}
           </div>
           
-          {/* Speaker Controls */}
-          <div className="flex justify-center">
-            <Button
-              onClick={() => {
-                speakerCountRef.current += 1;
-                onAddSpeaker?.();
-                // Show feedback to user
-                console.log(`Added Speaker ${speakerCountRef.current}`);
-              }}
-              variant="outline"
-              size="sm"
-              className="text-xs"
-              disabled={!isRecording}
-            >
-              <User className="w-3 h-3 mr-1" />
-              Add Speaker {speakerCountRef.current + 1}
-            </Button>
+          {/* Engine Selection */}
+          <Select value={engineId} onValueChange={handleEngineChange} disabled={isRecording}>
+            <SelectTrigger className="w-64 mx-auto text-xs">
+              <SelectValue placeholder="Transcription engine" />
+            </SelectTrigger>
+            <SelectContent>
+              {transcriptionEngineRegistry.list().map((descriptor) => (
+                <SelectItem
+                  key={descriptor.id}
+                  value={descriptor.id}
+                  disabled={!descriptor.isSupported()}
+                  className="text-xs"
+                >
+                  {descriptor.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {engineDescriptor?.ownsMicrophone && (
+            <p className="text-xs text-muted-foreground text-center">
+              {engineDescriptor.label} listens to the microphone directly, so noise suppression only reaches the recording and speaker labels
+            </p>
+          )}
+
+          {/* Push to Talk */}
+          <div className="flex items-center justify-center space-x-2">
+            <Switch id="push-to-talk" checked={pushToTalk} onCheckedChange={handlePushToTalkChange} />
+            <Label htmlFor="push-to-talk" className="text-xs text-muted-foreground">
+              Push to talk (hold Space)
+            </Label>
           </div>
+
+          {/* Demo Script */}
+          {engineId === 'scenario' && (
+            <div className="flex items-center justify-center space-x-2">
+              <span className="text-xs text-muted-foreground truncate max-w-40">{scenarioName}</span>
+              <input
+                ref={scenarioInputRef}
+                type="file"
+                accept=".json,.yaml,.yml"
+                className="hidden"
+                onChange={handleScenarioFile}
+              />
+              <Button
+                onClick={() => scenarioInputRef.current?.click()}
+                variant="outline"
+                size="sm"
+                className="text-xs"
+                disabled={isRecording}
+              >
+                <FileText className="w-3 h-3 mr-1" />
+                Load script
+              </Button>
+              <Button
+                onClick={resetScenario}
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                disabled={isRecording}
+                title="Use built-in script"
+              >
+                <RotateCcw className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
+          {/* Recognition Language */}
+          {engineLanguages && (
+            <div className="flex flex-wrap justify-center gap-2 max-w-xs mx-auto">
+              {Object.entries(engineLanguages).map(([code, name]) => (
+                <Button
+                  key={code}
+                  onClick={() => handleLanguageChange(code)}
+                  variant={activeLanguage === code ? 'default' : 'outline'}
+                  size="sm"
+                  className="text-xs"
+                >
+                  {name}
+                </Button>
+              ))}
+              {Object.keys(engineLanguages).length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  This engine does not support the meeting's languages
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Status */}
@@ -298,13 +546,21 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
             {isRecording
               ? isPaused
                 ? "Recording Paused"
-                : "Recording Active"
+                : listeningStatus
               : "Ready to Record"
             }
           </p>
           {isRecording && (
             <p className="text-xs text-muted-foreground mt-1">
-              Supporting Tamil & English • {speakerCountRef.current} speakers active
+              {engineLanguages?.[activeLanguage] || 'Listening'} • {speakerCount} speakers active
+            </p>
+          )}
+          {engineNotice && (
+            <p className={cn(
+              "text-xs mt-1",
+              engineNotice.recoverable ? "text-muted-foreground" : "text-destructive"
+            )}>
+              {engineNotice.message}
             </p>
           )}
         </div>
@@ -0,0 +1,60 @@
+import { useEffect, useRef } from "react"
+
+import { ShortcutId, findShortcut, isTypingTarget } from "@/lib/shortcuts"
+
+/** Hold shortcuts get both the keydown and the keyup; check event.type */
+export type ShortcutHandlers = Partial<Record<ShortcutId, (event: KeyboardEvent) => void>>
+
+/**
+ * Binds the shared shortcut definitions to this component's handlers.
+ * Shortcuts are ignored while typing, inside dialogs, or with Ctrl, Alt or
+ * Meta held, key repeat is swallowed, and held keys are released if the
+ * window loses focus so push-to-talk can never get stuck on.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  // Handlers change every render; the listeners only need the latest ones
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const held = new Map<ShortcutId, string>()
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = findShortcut(event.key)
+      const handler = shortcut && handlersRef.current[shortcut.id]
+      if (!shortcut || !handler) return
+      if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return
+
+      // Stops Space from also pressing a focused button
+      event.preventDefault()
+      if (event.repeat || held.has(shortcut.id)) return
+      if (shortcut.hold) held.set(shortcut.id, event.key)
+      handler(event)
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const shortcut = findShortcut(event.key)
+      if (!shortcut || !held.has(shortcut.id)) return
+      event.preventDefault()
+      held.delete(shortcut.id)
+      handlersRef.current[shortcut.id]?.(event)
+    }
+
+    const releaseAll = () => {
+      held.forEach((key, id) => handlersRef.current[id]?.(new KeyboardEvent("keyup", { key })))
+      held.clear()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", releaseAll)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", releaseAll)
+      releaseAll()
+    }
+  }, [enabled])
+}
@@ -0,0 +1,121 @@
+import { useCallback, useRef, useState } from "react"
+
+export const MAX_SPEAKERS = 20
+
+export interface RosterSpeaker {
+  id: string
+  name: string
+  /** Label the engine or diarizer uses for this speaker, kept across renames */
+  sourceLabel?: string
+}
+
+let nextId = 0
+
+const createSpeaker = (name: string, sourceLabel?: string): RosterSpeaker => ({
+  id: `speaker_${Date.now()}_${nextId++}`,
+  name,
+  sourceLabel,
+})
+
+// Engines and the diarizer call unknown voices "Speaker N", and labels are
+// resolved by name, so speakers added by hand get a name no label will use
+const nextGuestName = (speakers: RosterSpeaker[]): string => {
+  for (let n = 1; ; n++) {
+    const name = `Guest ${n}`
+    if (!speakers.some(speaker => speaker.name === name || speaker.sourceLabel === name)) return name
+  }
+}
+
+// The diarizer numbers new voices "Speaker N" as they are heard
+const DIARIZER_LABEL = /^Speaker \d+$/
+
+// Labels are resolved by name, so a rename that matches another speaker's
+// name or label, or a label the diarizer may hand out later, would merge two
+// people's lines. Case is ignored so names cannot differ only in capitals.
+const isNameTaken = (speakers: RosterSpeaker[], id: string, name: string): boolean => {
+  const own = speakers.find(speaker => speaker.id === id)
+  if (own?.sourceLabel === name) return false
+
+  const lowered = name.toLowerCase()
+  return DIARIZER_LABEL.test(name) || speakers.some(speaker => speaker.id !== id && (
+    speaker.name.toLowerCase() === lowered || speaker.sourceLabel?.toLowerCase() === lowered
+  ))
+}
+
+/**
+ * Meeting speaker list. Speakers heard by the engine or diarizer are added
+ * automatically, can be renamed or removed, and one can be marked active so
+ * new transcriptions are attributed to them in manual mode.
+ */
+export function useSpeakerRoster() {
+  const [speakers, setSpeakersState] = useState<RosterSpeaker[]>([])
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null)
+  const [manualMode, setManualMode] = useState(false)
+  const speakersRef = useRef<RosterSpeaker[]>([])
+
+  const setSpeakers = useCallback((next: RosterSpeaker[]) => {
+    speakersRef.current = next
+    setSpeakersState(next)
+  }, [])
+
+  const addSpeaker = useCallback((name?: string) => {
+    const current = speakersRef.current
+    if (current.length >= MAX_SPEAKERS) return null
+
+    const speaker = createSpeaker(name || nextGuestName(current))
+    setSpeakers([...current, speaker])
+    return speaker
+  }, [setSpeakers])
+
+  /** Returns false, leaving the name as it was, if the name is in use */
+  const renameSpeaker = useCallback((id: string, name: string): boolean => {
+    const trimmed = name.trim()
+    const current = speakersRef.current
+    if (!trimmed || isNameTaken(current, id, trimmed)) return false
+    setSpeakers(current.map(speaker =>
+      speaker.id === id ? { ...speaker, name: trimmed } : speaker
+    ))
+    return true
+  }, [setSpeakers])
+
+  const removeSpeaker = useCallback((id: string) => {
+    setSpeakers(speakersRef.current.filter(speaker => speaker.id !== id))
+    setActiveSpeakerId(current => (current === id ? null : current))
+  }, [setSpeakers])
+
+  /**
+   * Maps a label from the engine to the roster name, adding the speaker if
+   * this is the first time they are heard.
+   */
+  const resolveSpeaker = useCallback((label: string): string => {
+    const current = speakersRef.current
+    const match = current.find(speaker => speaker.sourceLabel === label || speaker.name === label)
+    if (match) return match.name
+    if (current.length >= MAX_SPEAKERS) return label
+
+    setSpeakers([...current, createSpeaker(label, label)])
+    return label
+  }, [setSpeakers])
+
+  const reset = useCallback(() => {
+    setSpeakers([])
+    setActiveSpeakerId(null)
+  }, [setSpeakers])
+
+  const activeSpeaker = speakers.find(speaker => speaker.id === activeSpeakerId) || null
+
+  return {
+    speakers,
+    activeSpeaker,
+    manualMode,
+    setManualMode,
+    setActiveSpeakerId,
+    addSpeaker,
+    renameSpeaker,
+    removeSpeaker,
+    resolveSpeaker,
+    reset,
+  }
+}
+
+export type SpeakerRoster = ReturnType<typeof useSpeakerRoster>
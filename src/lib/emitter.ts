@@ -0,0 +1,37 @@
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. A throwing listener is logged and skipped so
+ * one broken subscriber cannot stop the others from receiving events.
+ */
+export class TypedEmitter<EventMap> {
+  private listeners = new Map<keyof EventMap, Set<Listener<unknown>>>();
+
+  constructor(private readonly name: string) {}
+
+  on<K extends keyof EventMap>(event: K, listener: Listener<EventMap[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as Listener<unknown>);
+    return () => {
+      set.delete(listener as Listener<unknown>);
+    };
+  }
+
+  emit<K extends keyof EventMap>(event: K, payload: EventMap[K]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${this.name} ${String(event)} listener:`, error);
+      }
+    });
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
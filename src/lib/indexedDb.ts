@@ -0,0 +1,71 @@
+const DB_NAME = 'voice-meeting';
+const DB_VERSION = 2;
+
+export const STORES = {
+  recordings: 'recordings',
+  audioChunks: 'audioChunks',
+  voiceProfiles: 'voiceProfiles',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each version step only adds what is new, so existing data is kept when a
+// user on an older schema opens the app.
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.recordings, { keyPath: 'meetingId' });
+    const chunks = db.createObjectStore(STORES.audioChunks, { keyPath: ['meetingId', 'sequence'] });
+    chunks.createIndex('meetingId', 'meetingId');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.voiceProfiles, { keyPath: 'employeeId' });
+  }
+};
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key));
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAll());
+}
+
+export async function getAllByIndex<T>(store: StoreName, index: string, key: IDBValidKey): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).index(index).getAll(key));
+}
+
+export async function putRecord<T>(store: StoreName, value: T): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function deleteRecord(store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
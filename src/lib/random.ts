@@ -0,0 +1,16 @@
+export type RandomSource = () => number;
+
+/**
+ * Seedable PRNG (mulberry32). Returns floats in [0, 1) like Math.random, so
+ * the same seed always produces the same sequence.
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
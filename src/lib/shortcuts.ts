@@ -0,0 +1,61 @@
+export type ShortcutId =
+  | 'toggleRecording'
+  | 'togglePause'
+  | 'pushToTalk'
+  | 'togglePushToTalk'
+  | 'bookmark'
+  | 'selectSpeaker'
+  | 'clearSpeaker'
+  | 'showShortcuts';
+
+export type ShortcutGroup = 'Recording' | 'Meeting' | 'Speakers' | 'General';
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  /** KeyboardEvent.key values that trigger the shortcut, lowercased */
+  keys: string[];
+  /** How the keys are shown in the cheat sheet */
+  label: string;
+  description: string;
+  group: ShortcutGroup;
+  /** Also fires on release, for actions that last while the key is held */
+  hold?: boolean;
+}
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ['Recording', 'Meeting', 'Speakers', 'General'];
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'toggleRecording', keys: ['r'], label: 'R', description: 'Start or stop recording', group: 'Recording' },
+  { id: 'togglePause', keys: ['p'], label: 'P', description: 'Pause or resume recording', group: 'Recording' },
+  { id: 'pushToTalk', keys: [' '], label: 'Space', description: 'Hold to talk in push-to-talk mode', group: 'Recording', hold: true },
+  { id: 'togglePushToTalk', keys: ['t'], label: 'T', description: 'Turn push-to-talk on or off', group: 'Recording' },
+  { id: 'bookmark', keys: ['b'], label: 'B', description: 'Bookmark the current moment', group: 'Meeting' },
+  {
+    id: 'selectSpeaker',
+    keys: ['1', '2', '3', '4', '5', '6', '7', '8', '9'],
+    label: '1–9',
+    description: 'Make a roster speaker active',
+    group: 'Speakers',
+  },
+  { id: 'clearSpeaker', keys: ['0'], label: '0', description: 'Clear the active speaker', group: 'Speakers' },
+  { id: 'showShortcuts', keys: ['?'], label: '?', description: 'Show keyboard shortcuts', group: 'General' },
+];
+
+/**
+ * Keys typed into fields, used for typeahead in open menus and lists, or
+ * pressed inside an open dialog are not shortcuts.
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.isContentEditable ||
+    !!element.closest?.('[role="listbox"], [role="menu"], [role="dialog"], [role="alertdialog"]')
+  );
+};
+
+export const findShortcut = (key: string): ShortcutDefinition | undefined => {
+  const normalized = key.toLowerCase();
+  return SHORTCUTS.find(shortcut => shortcut.keys.includes(normalized));
+};
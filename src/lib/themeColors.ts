@@ -0,0 +1,15 @@
+/** Palette name for a speaker, e.g. "speaker-2", matching the speaker-* theme colours. */
+export const getSpeakerColor = (speaker: string): string => {
+  // Enrolled speakers have names rather than numbers, so hash those
+  const speakerIndex = parseInt(speaker.split(' ')[1])
+    || Array.from(speaker).reduce((hash, char) => hash + char.charCodeAt(0), 0) + 1;
+  // Five palette colours, reused in turn for larger meetings
+  return `speaker-${((speakerIndex - 1) % 5) + 1}`;
+};
+
+/**
+ * The HSL components of a theme colour, e.g. "142 76% 36%", for drawing
+ * outside of CSS: `hsl(${color} / 0.5)`.
+ */
+export const readThemeColor = (name: string): string =>
+  getComputedStyle(document.documentElement).getPropertyValue(`--${name}`).trim();
@@ -1,43 +1,110 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import VoiceRecorder from '@/components/VoiceRecorder';
 import TranscriptionDisplay, { TranscriptionEntry } from '@/components/TranscriptionDisplay';
 import MeetingStats from '@/components/MeetingStats';
+import VoiceEnrollment from '@/components/VoiceEnrollment';
+import RecordingImportDialog from '@/components/RecordingImportDialog';
+import SpeakerRoster from '@/components/SpeakerRoster';
+import MicrophoneSettings from '@/components/MicrophoneSettings';
+import MeetingLanguages from '@/components/MeetingLanguages';
+import KeyboardShortcuts from '@/components/KeyboardShortcuts';
+import VocabularyManager from '@/components/VocabularyManager';
+import RedactionSettings from '@/components/RedactionSettings';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
+import { useSpeakerRoster } from '@/hooks/use-speaker-roster';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
 import { apiService, VoiceData } from '@/services/apiService';
-import { Download, Upload, Settings, Users } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { Translation, translationService } from '@/services/translation';
+import { recordingStore } from '@/services/audio/recordingStore';
+import {
+  RecordingImporter,
+  RecordingImportResult,
+  RecordingImportStage,
+} from '@/services/audio/recordingImport';
+import {
+  SegmentConfidence,
+  TranscriptionSegment,
+  getConfidenceStats,
+  transcriptionEngineRegistry,
+} from '@/services/transcription';
+import { MeetingClock } from '@/services/meetingClock';
+import { vocabularyStore } from '@/services/vocabulary/vocabularyStore';
+import { correctText } from '@/services/vocabulary/vocabularyCorrector';
+import { redactLocalText } from '@/services/privacy/redaction';
+import { getCodeSwitchStats, tagLanguageSpans } from '@/services/language/languageIdentifier';
+import { languageRegistry } from '@/services/language/languageRegistry';
+import {
+  TRANSLITERATION_MODES,
+  TransliterationMode,
+  transliterateText,
+} from '@/services/language/transliteration';
+import { VoiceActivityStats } from '@/services/audio/voiceActivityDetector';
+import { Download, FileAudio, Upload, Settings, Users } from 'lucide-react';
+import { cn, downloadBlob } from '@/lib/utils';
+
+const IMPORT_STAGES: Record<RecordingImportStage, string> = {
+  decoding: 'Decoding audio',
+  analyzing: 'Finding speakers',
+  transcribing: 'Transcribing',
+};
+
+interface ImportState {
+  fileName: string;
+  stage: RecordingImportStage;
+  fraction: number;
+}
+
+const formatDuration = (ms: number): string => {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
 
 const Index = () => {
   const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  const [interimEntry, setInterimEntry] = useState<TranscriptionEntry | null>(null);
   const [isRecording, setIsRecording] = useState(false);
-  const [meetingStartTime, setMeetingStartTime] = useState<Date | null>(null);
-  const [duration, setDuration] = useState('00:00:00');
+  const [clock] = useState(() => new MeetingClock());
+  const [clockSnapshot, setClockSnapshot] = useState(() => clock.snapshot());
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [meetingId] = useState(() => `meeting_${Date.now()}`);
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivityStats | null>(null);
+  const [expectedLanguages, setExpectedLanguages] = useState(() => languageRegistry.getExpectedLanguages());
+  const [exportScript, setExportScript] = useState<TransliterationMode>('original');
+  const [importState, setImportState] = useState<ImportState | null>(null);
+  const importerRef = useRef<RecordingImporter | null>(null);
   const { toast } = useToast();
+  const roster = useSpeakerRoster();
 
-  // Update duration every second when recording
+  // Update duration every second when recording; wall-clock time keeps
+  // moving while paused even though active time does not
   useEffect(() => {
     let interval: NodeJS.Timeout;
     
-    if (isRecording && meetingStartTime) {
-      interval = setInterval(() => {
-        const now = new Date();
-        const diff = now.getTime() - meetingStartTime.getTime();
-        const hours = Math.floor(diff / 3600000);
-        const minutes = Math.floor((diff % 3600000) / 60000);
-        const seconds = Math.floor((diff % 60000) / 1000);
-        setDuration(`${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
-      }, 1000);
+    if (isRecording) {
+      interval = setInterval(() => setClockSnapshot(clock.snapshot()), 1000);
     }
 
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isRecording, meetingStartTime]);
+  }, [isRecording, clock]);
 
   // Monitor online status
   useEffect(() => {
@@ -64,45 +131,178 @@ const Index = () => {
     };
   }, []);
 
+  const downloadAudio = useCallback(async (id: string) => {
+    try {
+      const segments = await recordingStore.getAudioSegments(id);
+      if (segments.length === 0) {
+        toast({
+          title: "No Audio",
+          description: "No audio has been recorded for this meeting yet",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      segments.forEach((segment, index) => {
+        const extension = segment.type.includes('ogg') ? 'ogg' : 'webm';
+        const part = segments.length > 1 ? `_part${index + 1}` : '';
+        downloadBlob(segment, `meeting_audio_${id}${part}.${extension}`);
+      });
+    } catch (error) {
+      console.error('Error exporting audio:', error);
+    }
+  }, [toast]);
+
+  // Recordings left in the "recording" state were cut off by a crash or reload
+  useEffect(() => {
+    const recoverRecordings = async () => {
+      try {
+        const interrupted = await recordingStore.listInterrupted();
+        if (interrupted.length === 0) return;
+
+        await Promise.all(interrupted.map(recording => recordingStore.completeRecording(recording.meetingId)));
+        const latest = interrupted.reduce((a, b) => (a.updatedAt > b.updatedAt ? a : b));
+
+        toast({
+          title: "Recording Recovered",
+          description: `Recovered audio from ${interrupted.length} interrupted meeting${interrupted.length > 1 ? 's' : ''}`,
+          action: (
+            <ToastAction altText="Download recovered audio" onClick={() => downloadAudio(latest.meetingId)}>
+              Download
+            </ToastAction>
+          ),
+        });
+      } catch (error) {
+        console.error('Error recovering recordings:', error);
+      }
+    };
+
+    recoverRecordings();
+  }, [downloadAudio, toast]);
+
   const handleRecordingChange = (recording: boolean) => {
     setIsRecording(recording);
     
-    if (recording && !meetingStartTime) {
-      setMeetingStartTime(new Date());
+    if (recording) {
+      const firstStart = clock.snapshot().state === 'idle';
+      clock.start();
+      setClockSnapshot(clock.snapshot());
+      if (firstStart) {
+        toast({
+          title: "Meeting Started",
+          description: "Voice recording and transcription active",
+        });
+      }
+    } else {
+      clock.stop();
+      const snapshot = clock.snapshot();
+      setClockSnapshot(snapshot);
       toast({
-        title: "Meeting Started",
-        description: "Voice recording and transcription active",
-      });
-    } else if (!recording) {
-      toast({
-        title: "Meeting Ended",
-        description: `Meeting duration: ${duration}`,
+        title: "Recording Stopped",
+        description: `Recorded ${formatDuration(snapshot.activeMs)} so far; recording again continues this meeting`,
       });
     }
   };
 
-  const handleTranscription = async (text: string, speaker: string, language: string, timestamp: Date) => {
-    const newEntry: TranscriptionEntry = {
+  const handleBookmark = () => {
+    const marker = clock.bookmark();
+    if (!marker) return;
+    setClockSnapshot(clock.snapshot());
+    toast({
+      title: "Bookmarked",
+      description: `Marked ${marker.timestamp.toLocaleTimeString()} in the transcript`,
+    });
+  };
+
+  useKeyboardShortcuts({ bookmark: handleBookmark });
+
+  const handlePauseChange = (paused: boolean) => {
+    if (paused) {
+      clock.pause();
+    } else {
+      clock.resume();
+    }
+    setClockSnapshot(clock.snapshot());
+  };
+
+  const createEntry = (
+    text: string,
+    detectedSpeaker: string,
+    language: string,
+    timestamp: Date,
+    durationMs?: number,
+    scores?: SegmentConfidence
+  ): TranscriptionEntry => {
+    // Manual mode overrides whatever the engine or diarizer heard
+    const speaker = roster.manualMode && roster.activeSpeaker
+      ? roster.activeSpeaker.name
+      : roster.resolveSpeaker(detectedSpeaker);
+    // Vocabulary fixes go in before the entry is shown, translated or posted
+    const corrected = correctText(text, vocabularyStore.forLanguage(language));
+    const redacted = redactLocalText(corrected.text);
+    const hasRedactions = redacted.redactions.length > 0;
+    // The misheard words a correction keeps could hold personal data as well,
+    // and in a redacted entry they could rebuild what was masked
+    const corrections = hasRedactions
+      ? []
+      : corrected.corrections.map(correction => ({ ...correction, from: redactLocalText(correction.from).text }));
+
+    return {
       id: `transcription_${Date.now()}_${Math.random()}`,
-      text,
+      text: redacted.text,
       speaker,
       language,
       timestamp,
+      durationMs,
+      confidence: scores?.confidence,
+      // Word texts would still hold whatever was masked
+      words: hasRedactions ? undefined : scores?.words,
+      spans: tagLanguageSpans(redacted.text, expectedLanguages),
+      ...(corrections.length > 0 ? { corrections } : {}),
+      ...(hasRedactions ? { redactions: redacted.redactions } : {}),
     };
+  };
+
+  const translateEntry = async (newEntry: TranscriptionEntry): Promise<Translation | null> => {
+    const targetLanguage = translationService.getTargetLanguage(newEntry.language, expectedLanguages);
+    const translation = targetLanguage
+      ? await translationService.translate(newEntry.text, newEntry.language, targetLanguage)
+      : null;
+    if (translation) {
+      setTranscriptions(prev => prev.map(entry =>
+        entry.id === newEntry.id ? { ...entry, translation } : entry
+      ));
+    }
+    return translation;
+  };
+
+  const toVoiceData = (entry: TranscriptionEntry, translation: Translation | null): VoiceData => ({
+    id: entry.id,
+    text: entry.text,
+    speaker: entry.speaker,
+    language: entry.language,
+    timestamp: entry.timestamp,
+    meetingId,
+    expectedLanguages,
+    confidence: entry.confidence,
+    words: entry.words,
+    ...(translation ? { translation: { text: translation.text, language: translation.language } } : {}),
+  });
 
+  const handleTranscription = async (
+    text: string,
+    detectedSpeaker: string,
+    language: string,
+    timestamp: Date,
+    durationMs?: number,
+    scores?: SegmentConfidence
+  ) => {
+    const newEntry = createEntry(text, detectedSpeaker, language, timestamp, durationMs, scores);
     setTranscriptions(prev => [...prev, newEntry]);
+    const translation = await translateEntry(newEntry);
 
     // Post to API
-    const voiceData: VoiceData = {
-      id: newEntry.id,
-      text,
-      speaker,
-      language,
-      timestamp,
-      meetingId,
-    };
-
-    const result = await apiService.postVoiceData(voiceData);
+    const result = await apiService.postVoiceData(toVoiceData(newEntry, translation));
     
     if (!result.success) {
       toast({
@@ -113,6 +313,111 @@ const Index = () => {
     }
   };
 
+  const importRecording = async (file: File) => {
+    const importer = new RecordingImporter(transcriptionEngineRegistry.getSelectedId(), expectedLanguages);
+    importerRef.current = importer;
+    setImportState({ fileName: file.name, stage: 'decoding', fraction: 0 });
+
+    let result: RecordingImportResult | null;
+    try {
+      result = await importer.import(file, progress => setImportState({ fileName: file.name, ...progress }));
+    } catch (error) {
+      console.error('Error importing recording:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      importerRef.current = null;
+      setImportState(null);
+    }
+    if (!result) return;
+
+    if (result.segments.length === 0) {
+      toast({
+        title: "No Speech Recognized",
+        description: `Nothing in ${file.name} could be transcribed`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const entries = result.segments.map(segment =>
+      createEntry(segment.text, segment.speaker || 'Speaker 1', segment.language, segment.timestamp, segment.durationMs, segment)
+    );
+    setTranscriptions(prev => [...prev, ...entries]);
+    clock.addRecording(result.startedAt, result.durationMs);
+    setClockSnapshot(clock.snapshot());
+    setVoiceActivity(result.voiceActivity);
+    toast({
+      title: "Recording Imported",
+      description: `${entries.length} transcription${entries.length > 1 ? 's' : ''} from ${file.name}`,
+    });
+
+    const translations: (Translation | null)[] = [];
+    for (const entry of entries) {
+      translations.push(await translateEntry(entry));
+    }
+
+    const posted = await apiService.postBatchVoiceData(
+      entries.map((entry, index) => toVoiceData(entry, translations[index]))
+    );
+    if (!posted.success) {
+      toast({
+        title: "Data Saved Offline",
+        description: "Will sync when connection is restored",
+        variant: "default",
+      });
+    }
+  };
+
+  // Partials are display-only: they are never posted and never join the transcript
+  const handleInterimTranscription = (segment: TranscriptionSegment | null) => {
+    if (!segment) {
+      setInterimEntry(null);
+      return;
+    }
+
+    const label = segment.speaker
+      ? roster.speakers.find(speaker => speaker.sourceLabel === segment.speaker)?.name || segment.speaker
+      : '';
+    const { text } = redactLocalText(correctText(segment.text, vocabularyStore.forLanguage(segment.language)).text);
+    setInterimEntry({
+      id: 'transcription_interim',
+      text,
+      speaker: roster.manualMode && roster.activeSpeaker ? roster.activeSpeaker.name : label,
+      language: segment.language,
+      timestamp: segment.timestamp,
+      spans: tagLanguageSpans(text, expectedLanguages),
+      interim: true,
+    });
+  };
+
+  const handleExpectedLanguagesChange = (languages: string[]) => {
+    setExpectedLanguages(languages);
+    languageRegistry.setExpectedLanguages(languages);
+  };
+
+  const handleRenameSpeaker = (id: string, name: string) => {
+    const previous = roster.speakers.find(speaker => speaker.id === id)?.name;
+    const next = name.trim();
+    if (!previous || !next || previous === next) return;
+
+    if (!roster.renameSpeaker(id, next)) {
+      toast({
+        title: "Name Already In Use",
+        description: `"${next}" belongs to another speaker or could be given to a new voice; choose a different name`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setTranscriptions(prev => prev.map(entry =>
+      entry.speaker === previous ? { ...entry, speaker: next } : entry
+    ));
+  };
+
   const syncOfflineData = async () => {
     const result = await apiService.syncOfflineQueue();
     
@@ -125,14 +430,27 @@ const Index = () => {
   };
 
   const exportTranscriptions = () => {
-    const dataStr = JSON.stringify(transcriptions, null, 2);
+    // The transliteration rides alongside the original text, never replacing it
+    const entries = transcriptions.map(entry => exportScript === 'original' ? entry : {
+      ...entry,
+      transliteration: {
+        mode: exportScript,
+        text: transliterateText(entry.text, entry.spans, exportScript),
+      },
+    });
+    const snapshot = clock.snapshot();
+    const data = {
+      meetingId,
+      startedAt: snapshot.startedAt,
+      activeDurationMs: Math.round(snapshot.activeMs),
+      wallClockDurationMs: Math.round(snapshot.wallClockMs),
+      intervals: snapshot.intervals,
+      markers: snapshot.markers,
+      transcriptions: entries,
+    };
+    const dataStr = JSON.stringify(data, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `meeting_transcription_${meetingId}.json`;
-    link.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(dataBlob, `meeting_transcription_${meetingId}.json`);
     
     toast({
       title: "Export Complete",
@@ -174,14 +492,54 @@ const Index = () => {
               </Badge>
               
               <div className="flex space-x-2">
+                <KeyboardShortcuts />
+
+                <VoiceEnrollment disabled={isRecording} />
+
+                <RecordingImportDialog
+                  disabled={isRecording || clockSnapshot.state !== 'idle' || !!importState}
+                  expectedLanguages={expectedLanguages}
+                  onFileSelected={importRecording}
+                />
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={transcriptions.length === 0}
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Tamil text</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={exportScript}
+                      onValueChange={(mode) => setExportScript(mode as TransliterationMode)}
+                    >
+                      {Object.entries(TRANSLITERATION_MODES).map(([mode, label]) => (
+                        <DropdownMenuRadioItem key={mode} value={mode}>
+                          {label}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={exportTranscriptions}>
+                      Download JSON
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={exportTranscriptions}
-                  disabled={transcriptions.length === 0}
+                  onClick={() => downloadAudio(meetingId)}
+                  disabled={!clockSnapshot.startedAt || isRecording}
                 >
-                  <Download className="w-4 h-4 mr-2" />
-                  Export
+                  <FileAudio className="w-4 h-4 mr-2" />
+                  Audio
                 </Button>
                 
                 <Button
@@ -204,20 +562,61 @@ const Index = () => {
         {/* Meeting Stats */}
         <MeetingStats
           activeSpeakers={getActiveSpeakers()}
-          duration={duration}
+          duration={formatDuration(clockSnapshot.activeMs)}
+          wallClockDuration={formatDuration(clockSnapshot.wallClockMs)}
           totalTranscriptions={transcriptions.length}
           isOnline={isOnline}
           languages={getLanguages()}
+          voiceActivity={voiceActivity}
+          codeSwitching={getCodeSwitchStats(transcriptions)}
+          confidence={getConfidenceStats(transcriptions)}
         />
 
+        {importState && (
+          <Card className="p-4 bg-gradient-card border-border">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm">
+                <span className="font-medium text-foreground">{importState.fileName}</span>
+                <span className="text-muted-foreground"> • {IMPORT_STAGES[importState.stage]}</span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => importerRef.current?.cancel()}>
+                Cancel
+              </Button>
+            </div>
+            <Progress value={importState.fraction * 100} />
+          </Card>
+        )}
+
         {/* Voice Recorder and Transcription */}
         <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
           <div className="space-y-6">
             <VoiceRecorder
               onTranscription={handleTranscription}
+              onInterimTranscription={handleInterimTranscription}
               isRecording={isRecording}
               onRecordingChange={handleRecordingChange}
+              onPauseChange={handlePauseChange}
+              onVoiceActivity={setVoiceActivity}
+              speakerCount={roster.speakers.length}
+              meetingId={meetingId}
+              expectedLanguages={expectedLanguages}
+              disabled={!!importState}
+              activeSpeaker={roster.manualMode ? roster.activeSpeaker?.name : null}
+            />
+
+            <MeetingLanguages
+              expectedLanguages={expectedLanguages}
+              onChange={handleExpectedLanguagesChange}
+              disabled={isRecording}
             />
+
+            <VocabularyManager />
+
+            <RedactionSettings />
+
+            <MicrophoneSettings isRecording={isRecording} />
+
+            <SpeakerRoster roster={roster} onRename={handleRenameSpeaker} />
             
             {/* Meeting Info */}
             <Card className="p-4 bg-gradient-card border-border">
@@ -233,7 +632,7 @@ const Index = () => {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Languages:</span>
-                  <span className="text-foreground">Tamil & English</span>
+                  <span className="text-foreground text-right">{languageRegistry.describe(expectedLanguages)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Max Speakers:</span>
@@ -244,7 +643,11 @@ const Index = () => {
           </div>
 
           <div>
-            <TranscriptionDisplay transcriptions={transcriptions} />
+            <TranscriptionDisplay
+              transcriptions={transcriptions}
+              interimEntry={interimEntry}
+              markers={clockSnapshot.markers}
+            />
           </div>
         </div>
 
@@ -273,7 +676,7 @@ const Index = () => {
                 <span className="text-lg">🌐</span>
               </div>
               <p className="text-sm font-medium text-foreground">Multi-Language</p>
-              <p className="text-xs text-muted-foreground">Tamil & English</p>
+              <p className="text-xs text-muted-foreground">{languageRegistry.list().length} languages</p>
             </div>
             
             <div className="text-center">
@@ -1,3 +1,5 @@
+import { redactVoiceData } from '@/services/privacy/redaction';
+
 export interface VoiceData {
   id: string;
   text: string;
@@ -5,6 +7,18 @@ export interface VoiceData {
   language: string;
   timestamp: Date;
   meetingId: string;
+  /** Languages the host configured for the meeting */
+  expectedLanguages?: string[];
+  translation?: {
+    text: string;
+    language: string;
+  };
+  /** Recognizer confidence from 0 to 1, when the engine reports it */
+  confidence?: number;
+  words?: Array<{
+    text: string;
+    confidence: number;
+  }>;
 }
 
 export interface ApiResponse {
@@ -22,7 +36,9 @@ class ApiService {
     this.loadOfflineQueue();
   }
 
-  async postVoiceData(voiceData: VoiceData): Promise<ApiResponse> {
+  // Personal data is masked before anything is sent or queued, whatever the caller passes
+  async postVoiceData(entry: VoiceData): Promise<ApiResponse> {
+    const voiceData = redactVoiceData(entry);
     try {
       const response = await fetch(`${this.baseUrl}/voicedata`, {
         method: 'POST',
@@ -55,7 +71,8 @@ class ApiService {
     }
   }
 
-  async postBatchVoiceData(voiceDataArray: VoiceData[]): Promise<ApiResponse> {
+  async postBatchVoiceData(entries: VoiceData[]): Promise<ApiResponse> {
+    const voiceDataArray = entries.map(entry => redactVoiceData(entry));
     try {
       const response = await fetch(`${this.baseUrl}/voicedata/batch`, {
         method: 'POST',
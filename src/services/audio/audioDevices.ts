@@ -0,0 +1,96 @@
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface MultiMicChannel {
+  deviceId: string;
+  speaker: string;
+}
+
+export interface MultiMicConfig {
+  enabled: boolean;
+  channels: MultiMicChannel[];
+}
+
+const PREFERRED_DEVICE_KEY = 'audioInputDevice';
+const MULTI_MIC_KEY = 'multiMicConfig';
+
+/** Lists microphones. Labels stay empty until microphone permission is granted. */
+export async function listInputDevices(): Promise<AudioInputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+    }));
+}
+
+/** Calls the listener whenever a microphone is plugged in or removed. */
+export function onDeviceChange(listener: () => void): () => void {
+  if (!navigator.mediaDevices?.addEventListener) return () => {};
+  navigator.mediaDevices.addEventListener('devicechange', listener);
+  return () => navigator.mediaDevices.removeEventListener('devicechange', listener);
+}
+
+// Device ids are stable per origin and machine, so localStorage remembers
+// the choice for this machine only
+export function getPreferredDeviceId(): string | null {
+  try {
+    return localStorage.getItem(PREFERRED_DEVICE_KEY);
+  } catch (error) {
+    console.error('Error loading preferred microphone:', error);
+    return null;
+  }
+}
+
+export function setPreferredDeviceId(deviceId: string | null): void {
+  try {
+    if (deviceId) {
+      localStorage.setItem(PREFERRED_DEVICE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(PREFERRED_DEVICE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving preferred microphone:', error);
+  }
+}
+
+export function getMultiMicConfig(): MultiMicConfig {
+  try {
+    const saved = localStorage.getItem(MULTI_MIC_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error('Error loading multi-microphone setup:', error);
+  }
+  return { enabled: false, channels: [] };
+}
+
+export function setMultiMicConfig(config: MultiMicConfig): void {
+  try {
+    localStorage.setItem(MULTI_MIC_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error saving multi-microphone setup:', error);
+  }
+}
+
+/** Microphones the pipeline should open under the saved setup; null is the system default. */
+export function getConfiguredDeviceIds(): (string | null)[] {
+  const multiMic = getMultiMicConfig();
+  if (multiMic.enabled && multiMic.channels.length > 0) {
+    return multiMic.channels.map(channel => channel.deviceId);
+  }
+  return [getPreferredDeviceId()];
+}
+
+/** The speaker tagged on a microphone in multi-microphone mode. */
+export function getChannelSpeaker(deviceId: string | null): string | null {
+  const multiMic = getMultiMicConfig();
+  if (!multiMic.enabled || !deviceId) return null;
+  return multiMic.channels.find(channel => channel.deviceId === deviceId)?.speaker || null;
+}
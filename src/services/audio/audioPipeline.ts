@@ -0,0 +1,352 @@
+import pcmCaptureUrl from './pcmCapture.worklet?worker&url';
+import noiseSuppressionUrl from './noiseSuppression.worklet?worker&url';
+import { AudioProcessingSettings, getAudioProcessingSettings } from './audioProcessing';
+
+export interface AudioTap {
+  disconnect(): void;
+}
+
+export interface StreamTap extends AudioTap {
+  stream: MediaStream;
+}
+
+export interface AnalyserTap extends AudioTap {
+  analyser: AnalyserNode;
+}
+
+export type PcmFrameListener = (frame: Float32Array, sampleRate: number) => void;
+
+interface InputChannel {
+  deviceId: string | null;
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+}
+
+const ANALYSER_FFT_SIZE = 256;
+
+const constraintsFor = (deviceId: string | null): MediaStreamConstraints => ({
+  audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+});
+
+/**
+ * Owns the microphone streams and AudioContext for a meeting. Every consumer
+ * (level meter, recorder, ASR engines) attaches a tap to the shared output
+ * instead of opening its own getUserMedia stream, and stop() releases
+ * everything in one place. Inputs can be swapped while running without
+ * disturbing the taps, and several microphones are mixed onto the bus,
+ * which feeds the noise suppression chain before reaching the output.
+ * Browser speech recognition opens its own stream, so it hears the
+ * microphone without that processing.
+ */
+class AudioPipeline {
+  private context: AudioContext | null = null;
+  private inputs: InputChannel[] = [];
+  private deviceIds: (string | null)[] = [null];
+  private bus: GainNode | null = null;
+  private processor: AudioWorkletNode | null = null;
+  private output: GainNode | null = null;
+  private processing: AudioProcessingSettings = getAudioProcessingSettings();
+  private analyser: AnalyserNode | null = null;
+  private sink: GainNode | null = null;
+  private workletReady: Promise<void> | null = null;
+  private starting: Promise<void> | null = null;
+  private taps = new Set<AudioTap>();
+  private generation = 0;
+  private levelBuffer = new Float32Array(ANALYSER_FFT_SIZE);
+
+  get isActive(): boolean {
+    return !!this.context;
+  }
+
+  get sampleRate(): number {
+    return this.context?.sampleRate || 0;
+  }
+
+  get channelCount(): number {
+    return this.inputs.length;
+  }
+
+  /** Opens the microphones once; later calls reuse the running graph. */
+  start(): Promise<void> {
+    if (this.context) return Promise.resolve();
+    if (!this.starting) {
+      this.starting = this.open().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  stop(): void {
+    this.generation += 1;
+    Array.from(this.taps).forEach(tap => tap.disconnect());
+
+    this.closeInputs(this.inputs);
+    this.bus?.disconnect();
+    this.processor?.disconnect();
+    this.output?.disconnect();
+    this.analyser?.disconnect();
+    this.sink?.disconnect();
+    this.context?.close();
+
+    this.inputs = [];
+    this.context = null;
+    this.bus = null;
+    this.processor = null;
+    this.output = null;
+    this.analyser = null;
+    this.sink = null;
+    this.workletReady = null;
+  }
+
+  getProcessing(): AudioProcessingSettings {
+    return this.processing;
+  }
+
+  /** Updates the noise suppression chain; applies live while recording. */
+  setProcessing(settings: AudioProcessingSettings): void {
+    this.processing = settings;
+    this.processor?.port.postMessage(settings);
+  }
+
+  /**
+   * Chooses the microphones to capture; null means the system default.
+   * When running, the new inputs replace the old ones on the same bus.
+   */
+  async setInputDevices(deviceIds: (string | null)[]): Promise<void> {
+    this.deviceIds = deviceIds.length > 0 ? deviceIds : [null];
+    if (!this.context || !this.bus) return;
+
+    const generation = this.generation;
+    const inputs = await this.openInputs(this.context);
+    if (generation !== this.generation) {
+      this.closeInputs(inputs);
+      return;
+    }
+
+    this.closeInputs(this.inputs);
+    inputs.forEach(input => input.source.connect(this.bus));
+    this.inputs = inputs;
+  }
+
+  getInputDeviceIds(): (string | null)[] {
+    return this.inputs.map(input => input.deviceId);
+  }
+
+  getAnalyser(): AnalyserNode | null {
+    return this.analyser;
+  }
+
+  /** Current RMS level of each input, in input order. */
+  getChannelLevels(): number[] {
+    return this.inputs.map(({ analyser }) => {
+      analyser.getFloatTimeDomainData(this.levelBuffer);
+      let sum = 0;
+      for (let i = 0; i < this.levelBuffer.length; i++) {
+        sum += this.levelBuffer[i] * this.levelBuffer[i];
+      }
+      return Math.sqrt(sum / this.levelBuffer.length);
+    });
+  }
+
+  /** A MediaStream carrying the pipeline's output, e.g. for MediaRecorder. */
+  createStreamTap(): StreamTap {
+    const { context, output } = this.requireActive();
+    const destination = context.createMediaStreamDestination();
+    output.connect(destination);
+
+    const tap: StreamTap = {
+      stream: destination.stream,
+      disconnect: () => {
+        if (!this.taps.has(tap)) return;
+        output.disconnect(destination);
+        this.taps.delete(tap);
+      },
+    };
+    this.taps.add(tap);
+    return tap;
+  }
+
+  /** A dedicated AnalyserNode on the output, e.g. for visualizations. */
+  createAnalyserTap(fftSize: number): AnalyserTap {
+    const { context, output } = this.requireActive();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = fftSize;
+    output.connect(analyser);
+
+    const tap: AnalyserTap = {
+      analyser,
+      disconnect: () => {
+        if (!this.taps.has(tap)) return;
+        output.disconnect(analyser);
+        this.taps.delete(tap);
+      },
+    };
+    this.taps.add(tap);
+    return tap;
+  }
+
+  /** Delivers mono PCM frames from the render thread, e.g. for ASR engines. */
+  async createPcmTap(listener: PcmFrameListener): Promise<AudioTap> {
+    const { context, output, sink } = this.requireActive();
+    await this.workletReady;
+
+    const node = new AudioWorkletNode(context, 'pcm-capture');
+    node.port.onmessage = (event: MessageEvent<Float32Array>) => listener(event.data, context.sampleRate);
+    output.connect(node);
+    node.connect(sink);
+
+    const tap: AudioTap = {
+      disconnect: () => {
+        if (!this.taps.has(tap)) return;
+        node.port.onmessage = null;
+        output.disconnect(node);
+        node.disconnect();
+        this.taps.delete(tap);
+      },
+    };
+    this.taps.add(tap);
+    return tap;
+  }
+
+  private async open(): Promise<void> {
+    const generation = this.generation;
+    const context = new AudioContext();
+    let inputs: InputChannel[];
+    try {
+      inputs = await this.openInputs(context);
+    } catch (error) {
+      context.close();
+      throw error;
+    }
+
+    if (generation !== this.generation) {
+      // stop() was called while the permission prompt was open
+      this.closeInputs(inputs);
+      context.close();
+      return;
+    }
+
+    const bus = context.createGain();
+    const output = context.createGain();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = ANALYSER_FFT_SIZE;
+
+    // Worklet taps have to reach the destination to be pulled by the render
+    // thread; the muted sink keeps the microphone off the speakers.
+    const sink = context.createGain();
+    sink.gain.value = 0;
+    sink.connect(context.destination);
+
+    const workletReady = context.audioWorklet
+      ? context.audioWorklet.addModule(pcmCaptureUrl)
+      : Promise.reject(new Error('AudioWorklet is not supported'));
+    workletReady.catch(error => console.error('Error loading PCM capture worklet:', error));
+
+    // The graph is only exposed once the processor is in place, so no tap
+    // ever hears unprocessed audio
+    const processor = await this.createProcessor(context);
+    if (generation !== this.generation) {
+      this.closeInputs(inputs);
+      context.close();
+      return;
+    }
+
+    inputs.forEach(input => input.source.connect(bus));
+    if (processor) {
+      bus.connect(processor);
+      processor.connect(output);
+    } else {
+      bus.connect(output);
+    }
+    output.connect(analyser);
+    // Keeps the processing chain rendering even when no tap is attached
+    output.connect(sink);
+
+    this.context = context;
+    this.inputs = inputs;
+    this.bus = bus;
+    this.processor = processor;
+    this.output = output;
+    this.analyser = analyser;
+    this.sink = sink;
+    this.workletReady = workletReady;
+  }
+
+  /** The noise suppression node, or null to pass audio straight through. */
+  private async createProcessor(context: AudioContext): Promise<AudioWorkletNode | null> {
+    if (!context.audioWorklet) return null;
+    try {
+      await context.audioWorklet.addModule(noiseSuppressionUrl);
+      return new AudioWorkletNode(context, 'noise-suppression', {
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        outputChannelCount: [1],
+        processorOptions: { settings: this.processing },
+      });
+    } catch (error) {
+      console.error('Error loading noise suppression worklet:', error);
+      return null;
+    }
+  }
+
+  private async openInputs(context: AudioContext): Promise<InputChannel[]> {
+    const inputs: InputChannel[] = [];
+    try {
+      for (const deviceId of this.deviceIds) {
+        const stream = await this.openStream(deviceId);
+        if (stream) {
+          inputs.push(this.createInput(context, deviceId, stream));
+        }
+      }
+      // Every chosen microphone is gone; fall back to the system default
+      if (inputs.length === 0) {
+        inputs.push(this.createInput(context, null, await navigator.mediaDevices.getUserMedia(constraintsFor(null))));
+      }
+    } catch (error) {
+      this.closeInputs(inputs);
+      throw error;
+    }
+    return inputs;
+  }
+
+  private async openStream(deviceId: string | null): Promise<MediaStream | null> {
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraintsFor(deviceId));
+    } catch (error) {
+      const unplugged = error instanceof DOMException
+        && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+      if (deviceId && unplugged) {
+        console.warn(`Microphone ${deviceId} is not available, skipping it`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private createInput(context: AudioContext, deviceId: string | null, stream: MediaStream): InputChannel {
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = ANALYSER_FFT_SIZE;
+    source.connect(analyser);
+    return { deviceId, stream, source, analyser };
+  }
+
+  private closeInputs(inputs: InputChannel[]): void {
+    inputs.forEach(({ stream, source, analyser }) => {
+      source.disconnect();
+      analyser.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+    });
+  }
+
+  private requireActive() {
+    if (!this.context || !this.output || !this.sink) {
+      throw new Error('Audio pipeline is not running');
+    }
+    return { context: this.context, output: this.output, sink: this.sink };
+  }
+}
+
+export const audioPipeline = new AudioPipeline();
@@ -0,0 +1,36 @@
+export interface AudioProcessingSettings {
+  /** Passes the microphone through untouched */
+  bypass: boolean;
+  /** 0–1: raises the high-pass cutoff and how far the noise gate attenuates */
+  noiseReduction: number;
+  /** 0–1: how far automatic gain control may boost quiet or cut loud speakers */
+  gainControl: number;
+}
+
+const AUDIO_PROCESSING_KEY = 'audioProcessing';
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  bypass: false,
+  noiseReduction: 0.5,
+  gainControl: 0.5,
+};
+
+export function getAudioProcessingSettings(): AudioProcessingSettings {
+  try {
+    const saved = localStorage.getItem(AUDIO_PROCESSING_KEY);
+    if (saved) {
+      return { ...DEFAULT_AUDIO_PROCESSING, ...JSON.parse(saved) };
+    }
+  } catch (error) {
+    console.error('Error loading audio processing settings:', error);
+  }
+  return DEFAULT_AUDIO_PROCESSING;
+}
+
+export function setAudioProcessingSettings(settings: AudioProcessingSettings): void {
+  try {
+    localStorage.setItem(AUDIO_PROCESSING_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving audio processing settings:', error);
+  }
+}
@@ -0,0 +1,69 @@
+import { audioPipeline } from './audioPipeline';
+
+interface ChannelSample {
+  time: number;
+  channel: number;
+}
+
+const SAMPLE_INTERVAL_MS = 50;
+const HISTORY_MS = 30000;
+const MIN_LEVEL = 0.005;
+
+/**
+ * Follows which microphone is loudest over time. With a table microphone per
+ * seat, the dominant channel during an utterance tells us who spoke.
+ */
+export class ChannelActivityTracker {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private samples: ChannelSample[] = [];
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  reset(): void {
+    this.stop();
+    this.samples = [];
+  }
+
+  /** Index of the input that was loudest most often between start and end. */
+  dominantChannel(start: Date, end: Date): number | null {
+    const counts = new Map<number, number>();
+    this.samples.forEach(sample => {
+      if (sample.time < start.getTime() || sample.time > end.getTime()) return;
+      counts.set(sample.channel, (counts.get(sample.channel) || 0) + 1);
+    });
+
+    let best: number | null = null;
+    counts.forEach((count, channel) => {
+      if (best === null || count > counts.get(best)) best = channel;
+    });
+    return best;
+  }
+
+  private sample(): void {
+    if (audioPipeline.channelCount < 2) return;
+
+    const levels = audioPipeline.getChannelLevels();
+    let channel = -1;
+    levels.forEach((level, index) => {
+      if (level >= MIN_LEVEL && (channel === -1 || level > levels[channel])) channel = index;
+    });
+
+    const now = Date.now();
+    if (channel !== -1) {
+      this.samples.push({ time: now, channel });
+    }
+    while (this.samples.length > 0 && this.samples[0].time < now - HISTORY_MS) {
+      this.samples.shift();
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { audioPipeline, StreamTap } from './audioPipeline';
+import { recordingStore } from './recordingStore';
+
+const TIMESLICE_MS = 5000;
+const PREFERRED_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/webm',
+];
+
+const pickMimeType = (): string =>
+  PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+/**
+ * Records meeting audio with MediaRecorder in time-sliced chunks and writes
+ * each chunk to IndexedDB as soon as it arrives. Chunk offsets count only
+ * recorded time, so they line up with the audio rather than the wall clock.
+ */
+export class MeetingRecorder {
+  private mediaRecorder: MediaRecorder | null = null;
+  private tap: StreamTap | null = null;
+  private meetingId = '';
+  private segment = 0;
+  private sequence = 0;
+  private recordedMs = 0;
+  private sliceActiveMs = 0;
+  private activeSince = 0;
+  private running = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && typeof indexedDB !== 'undefined';
+  }
+
+  get isActive(): boolean {
+    return !!this.mediaRecorder && this.mediaRecorder.state !== 'inactive';
+  }
+
+  /** Starts recording from the shared audio pipeline, which must be running. */
+  async start(meetingId: string): Promise<void> {
+    const mimeType = pickMimeType();
+    this.tap = audioPipeline.createStreamTap();
+    const recording = await recordingStore.beginSegment(meetingId, mimeType);
+
+    this.meetingId = meetingId;
+    this.segment = recording.segmentCount - 1;
+    this.sequence = recording.chunkCount;
+    this.recordedMs = recording.durationMs;
+    this.sliceActiveMs = 0;
+    this.activeSince = Date.now();
+    this.running = true;
+
+    const mediaRecorder = new MediaRecorder(this.tap.stream, mimeType ? { mimeType } : undefined);
+    mediaRecorder.ondataavailable = (event) => this.handleChunk(event.data, mediaRecorder.mimeType);
+    mediaRecorder.onerror = (event) => console.error('MediaRecorder error:', event);
+    mediaRecorder.start(TIMESLICE_MS);
+    this.mediaRecorder = mediaRecorder;
+  }
+
+  pause(): void {
+    if (this.mediaRecorder?.state !== 'recording') return;
+    this.mediaRecorder.pause();
+    this.sliceActiveMs += Date.now() - this.activeSince;
+    this.running = false;
+  }
+
+  resume(): void {
+    if (this.mediaRecorder?.state !== 'paused') return;
+    this.mediaRecorder.resume();
+    this.activeSince = Date.now();
+    this.running = true;
+  }
+
+  /** Stops recording and resolves once every chunk has been persisted. */
+  async stop(): Promise<void> {
+    const mediaRecorder = this.mediaRecorder;
+    if (!mediaRecorder) return;
+
+    if (mediaRecorder.state !== 'inactive') {
+      const stopped = new Promise<void>(resolve => {
+        mediaRecorder.addEventListener('stop', () => resolve(), { once: true });
+      });
+      mediaRecorder.stop();
+      await stopped;
+    }
+
+    this.mediaRecorder = null;
+    this.running = false;
+    this.tap?.disconnect();
+    this.tap = null;
+
+    await this.writeQueue;
+    await recordingStore.completeRecording(this.meetingId);
+  }
+
+  private handleChunk(blob: Blob, mimeType: string): void {
+    if (blob.size === 0) return;
+
+    const now = Date.now();
+    const durationMs = this.sliceActiveMs + (this.running ? now - this.activeSince : 0);
+    this.sliceActiveMs = 0;
+    this.activeSince = now;
+
+    const chunk = {
+      meetingId: this.meetingId,
+      sequence: this.sequence++,
+      segment: this.segment,
+      startOffsetMs: this.recordedMs,
+      durationMs,
+      mimeType,
+      blob,
+      recordedAt: new Date(now),
+    };
+    this.recordedMs += durationMs;
+
+    // Chain writes so chunks land in order even if IndexedDB is slow
+    this.writeQueue = this.writeQueue
+      .then(() => recordingStore.saveChunk(chunk))
+      .catch(error => console.error('Error saving audio chunk:', error));
+  }
+}
@@ -0,0 +1,238 @@
+import { fft } from '@/lib/fft';
+import type { AudioProcessingSettings } from './audioProcessing';
+
+// AudioWorklet globals are not part of the DOM lib typings
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: unknown });
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+declare const sampleRate: number;
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = FRAME_SIZE / 2;
+const BINS = FRAME_SIZE / 2 + 1;
+
+const MIN_HIGH_PASS_HZ = 60;
+const MAX_HIGH_PASS_HZ = 150;
+// Noise floor follows drops within a few frames but rises over ~2 s, so
+// steady hum is learned while speech is not
+const NOISE_FALL = 0.7;
+const NOISE_RISE = 0.995;
+const MAX_ATTENUATION_DB = 24;
+const GAIN_SMOOTHING = 0.5;
+
+const AGC_TARGET_RMS = 0.1; // about -20 dBFS
+const AGC_MAX_BOOST_DB = 24;
+const AGC_SPEECH_RMS = 0.003; // below this a block is treated as silence
+const AGC_ATTACK = 0.3;
+const AGC_RELEASE = 0.02;
+
+const LIMITER_CEILING = 0.89; // about -1 dBFS
+const LIMITER_RELEASE = 0.0005;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Periodic sqrt-Hann on both analysis and synthesis sums to one at 50% overlap
+const WINDOW = Float32Array.from({ length: FRAME_SIZE }, (_, i) =>
+  Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE))
+);
+
+/** Second-order Butterworth high-pass (RBJ cookbook). */
+class HighPassFilter {
+  private b0 = 1;
+  private b1 = 0;
+  private b2 = 0;
+  private a1 = 0;
+  private a2 = 0;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  setCutoff(hz: number): void {
+    const w0 = (2 * Math.PI * hz) / sampleRate;
+    const alpha = Math.sin(w0) / Math.SQRT2;
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+    this.b0 = (1 + cos) / 2 / a0;
+    this.b1 = -(1 + cos) / a0;
+    this.b2 = (1 + cos) / 2 / a0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(x: number): number {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/**
+ * Cleans up microphone audio before anything else hears it: a high-pass
+ * filter for rumble and mains hum, a spectral noise gate that learns the
+ * steady background (air conditioning, fans) and subtracts it, automatic
+ * gain control to even out near and far speakers, and a peak limiter.
+ */
+class NoiseSuppressionProcessor extends AudioWorkletProcessor {
+  private settings: AudioProcessingSettings;
+  private highPass = new HighPassFilter();
+
+  private frame = new Float32Array(FRAME_SIZE);
+  private hop = new Float32Array(HOP_SIZE);
+  private hopOffset = 0;
+  private overlap = new Float32Array(FRAME_SIZE);
+  private ready = new Float32Array(HOP_SIZE);
+  private readyOffset = 0;
+  private real = new Float32Array(FRAME_SIZE);
+  private imag = new Float32Array(FRAME_SIZE);
+  private noise = new Float32Array(BINS);
+  private gains = new Float32Array(BINS).fill(1);
+  private noiseInitialized = false;
+
+  private agcGain = 1;
+  private speechRms = AGC_TARGET_RMS;
+  private limiterGain = 1;
+
+  constructor(options?: { processorOptions?: { settings?: AudioProcessingSettings } }) {
+    super(options);
+    this.settings = options?.processorOptions?.settings || { bypass: false, noiseReduction: 0.5, gainControl: 0.5 };
+    this.applySettings();
+    this.port.onmessage = (event: MessageEvent<AudioProcessingSettings>) => {
+      this.settings = event.data;
+      this.applySettings();
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    const output = outputs[0]?.[0];
+    if (!output) return true;
+    if (!input) {
+      output.fill(0);
+      return true;
+    }
+
+    if (this.settings.bypass) {
+      output.set(input);
+      return true;
+    }
+
+    // Output lags input by one hop while the next frame is collected
+    output.set(this.ready.subarray(this.readyOffset, this.readyOffset + output.length));
+    this.readyOffset += output.length;
+
+    for (let i = 0; i < input.length; i++) {
+      this.hop[this.hopOffset++] = this.highPass.process(input[i]);
+      if (this.hopOffset === HOP_SIZE) {
+        this.processHop();
+        this.hopOffset = 0;
+      }
+    }
+
+    this.applyGainControl(output);
+    this.applyLimiter(output);
+    return true;
+  }
+
+  private applySettings(): void {
+    const { noiseReduction } = this.settings;
+    this.highPass.setCutoff(MIN_HIGH_PASS_HZ + (MAX_HIGH_PASS_HZ - MIN_HIGH_PASS_HZ) * noiseReduction);
+  }
+
+  private processHop(): void {
+    this.frame.copyWithin(0, HOP_SIZE);
+    this.frame.set(this.hop, FRAME_SIZE - HOP_SIZE);
+
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      this.real[i] = this.frame[i] * WINDOW[i];
+      this.imag[i] = 0;
+    }
+    fft(this.real, this.imag);
+    this.gateSpectrum();
+
+    // Inverse FFT by conjugation
+    for (let i = 0; i < FRAME_SIZE; i++) this.imag[i] = -this.imag[i];
+    fft(this.real, this.imag);
+
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      this.overlap[i] += (this.real[i] / FRAME_SIZE) * WINDOW[i];
+    }
+    this.ready.set(this.overlap.subarray(0, HOP_SIZE));
+    this.readyOffset = 0;
+    this.overlap.copyWithin(0, HOP_SIZE);
+    this.overlap.fill(0, FRAME_SIZE - HOP_SIZE);
+  }
+
+  private gateSpectrum(): void {
+    const strength = this.settings.noiseReduction;
+    const overSubtraction = 1 + 2 * strength;
+    const floor = dbToGain(-MAX_ATTENUATION_DB * strength);
+
+    for (let bin = 0; bin < BINS; bin++) {
+      const power = this.real[bin] * this.real[bin] + this.imag[bin] * this.imag[bin];
+
+      if (!this.noiseInitialized) {
+        this.noise[bin] = power;
+      } else {
+        const rate = power < this.noise[bin] ? NOISE_FALL : NOISE_RISE;
+        this.noise[bin] = rate * this.noise[bin] + (1 - rate) * power;
+      }
+
+      const target = power > 0
+        ? Math.max(floor, Math.sqrt(Math.max(0, 1 - (overSubtraction * this.noise[bin]) / power)))
+        : floor;
+      // Smoothing across frames avoids the warbling "musical noise" artefacts
+      const gain = GAIN_SMOOTHING * this.gains[bin] + (1 - GAIN_SMOOTHING) * target;
+      this.gains[bin] = gain;
+
+      this.real[bin] *= gain;
+      this.imag[bin] *= gain;
+      // Keep the spectrum conjugate-symmetric so the output stays real
+      if (bin > 0 && bin < FRAME_SIZE / 2) {
+        this.real[FRAME_SIZE - bin] *= gain;
+        this.imag[FRAME_SIZE - bin] *= gain;
+      }
+    }
+    this.noiseInitialized = true;
+  }
+
+  private applyGainControl(block: Float32Array): void {
+    const maxBoost = dbToGain(AGC_MAX_BOOST_DB * this.settings.gainControl);
+    let sum = 0;
+    for (let i = 0; i < block.length; i++) sum += block[i] * block[i];
+    const rms = Math.sqrt(sum / block.length);
+
+    // Only speech moves the level estimate, so pauses are not boosted into hiss
+    if (rms > AGC_SPEECH_RMS) {
+      this.speechRms += (rms - this.speechRms) * AGC_RELEASE;
+    }
+    const target = Math.min(maxBoost, Math.max(1 / maxBoost, AGC_TARGET_RMS / this.speechRms));
+    const rate = target < this.agcGain ? AGC_ATTACK : AGC_RELEASE;
+    const next = this.agcGain + (target - this.agcGain) * rate;
+
+    // Ramp across the block to avoid zipper noise
+    for (let i = 0; i < block.length; i++) {
+      block[i] *= this.agcGain + ((next - this.agcGain) * i) / block.length;
+    }
+    this.agcGain = next;
+  }
+
+  private applyLimiter(block: Float32Array): void {
+    for (let i = 0; i < block.length; i++) {
+      // Instant attack, slow release
+      this.limiterGain += (1 - this.limiterGain) * LIMITER_RELEASE;
+      const peak = Math.abs(block[i]);
+      if (peak * this.limiterGain > LIMITER_CEILING) {
+        this.limiterGain = LIMITER_CEILING / peak;
+      }
+      block[i] *= this.limiterGain;
+    }
+  }
+}
+
+registerProcessor('noise-suppression', NoiseSuppressionProcessor);
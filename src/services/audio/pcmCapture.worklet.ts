@@ -0,0 +1,38 @@
+// AudioWorklet globals are not part of the DOM lib typings
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+const FRAME_SIZE = 4096;
+
+/**
+ * Collects mono PCM from the render thread into fixed-size frames and posts
+ * them to the main thread, where they are handed to an ASR engine.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private frame = new Float32Array(FRAME_SIZE);
+  private offset = 0;
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, FRAME_SIZE - this.offset);
+      this.frame.set(channel.subarray(read, read + count), this.offset);
+      this.offset += count;
+      read += count;
+
+      if (this.offset === FRAME_SIZE) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(FRAME_SIZE);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
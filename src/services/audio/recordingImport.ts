@@ -0,0 +1,258 @@
+import {
+  transcriptionEngineRegistry,
+  RecordedAudio,
+  TranscriptionEngine,
+  TranscriptionEngineDescriptor,
+  TranscriptionSegment,
+} from '@/services/transcription';
+import { DiarizationService, DiarizedSegment } from '@/services/speakers/diarizationService';
+import { voiceProfileStore } from '@/services/speakers/voiceProfileStore';
+import { DEFAULT_VAD_OPTIONS, VoiceActivityDetector, VoiceActivityStats } from './voiceActivityDetector';
+
+/** Value for a file input's accept attribute */
+export const RECORDING_FILE_TYPES = '.wav,.mp3,.m4a,.webm,audio/wav,audio/mpeg,audio/mp4,audio/webm';
+
+// Speech models and voice embeddings work at 16 kHz, so decoding straight
+// to it spares every later stage a resampling pass
+const DECODE_SAMPLE_RATE = 16000;
+const DIARIZATION_BLOCK_SIZE = 4096;
+// Analysis frames between yields to the UI thread, about ten seconds of audio
+const FRAMES_PER_YIELD = 500;
+
+export class RecordingImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingImportError';
+  }
+}
+
+export type RecordingImportStage = 'decoding' | 'analyzing' | 'transcribing';
+
+export interface RecordingImportProgress {
+  stage: RecordingImportStage;
+  fraction: number;
+}
+
+export interface RecordingImportResult {
+  startedAt: Date;
+  durationMs: number;
+  /** Finals in time order, each with a speaker label */
+  segments: TranscriptionSegment[];
+  voiceActivity: VoiceActivityStats;
+}
+
+export interface RecordingImportPlan {
+  engine: TranscriptionEngineDescriptor;
+  /** Locale the whole file is transcribed in, if the engine takes one */
+  language?: string;
+  /** Expected languages whose speech the file will not be transcribed in */
+  skippedLanguages: string[];
+}
+
+/**
+ * How a recording would be transcribed, so the constraints can be shown
+ * before a file is picked. Engines transcribe a whole file in one language,
+ * the first of the meeting's languages they support. Throws
+ * RecordingImportError when the engine cannot transcribe recordings.
+ */
+export function planRecordingImport(engineId: string, expectedLanguages: string[]): RecordingImportPlan {
+  const descriptor = transcriptionEngineRegistry.get(engineId);
+  if (!descriptor?.acceptsRecordings) {
+    const alternatives = transcriptionEngineRegistry.list()
+      .filter(candidate => candidate.acceptsRecordings && candidate.isSupported())
+      .map(candidate => candidate.label);
+    throw new RecordingImportError(
+      `${descriptor?.label || 'This engine'} cannot transcribe recordings.`
+        + (alternatives.length > 0 ? ` Switch to ${alternatives.join(' or ')} first.` : '')
+    );
+  }
+  const { languages } = descriptor;
+  if (!languages) return { engine: descriptor, skippedLanguages: [] };
+
+  const language = Object.keys(languages).find(code => expectedLanguages.includes(languages[code]));
+  if (!language) {
+    throw new RecordingImportError(`${descriptor.label} does not support the meeting's languages.`);
+  }
+  return {
+    engine: descriptor,
+    language,
+    skippedLanguages: expectedLanguages.filter(name => name !== languages[language]),
+  };
+}
+
+/** Decodes an audio file to mono PCM dated to when it was recorded. */
+export async function decodeRecording(file: File): Promise<RecordedAudio> {
+  let context: AudioContext;
+  try {
+    context = new AudioContext({ sampleRate: DECODE_SAMPLE_RATE });
+  } catch {
+    // Some browsers only run contexts at the hardware rate
+    context = new AudioContext();
+  }
+
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        samples[i] += data[i] / buffer.numberOfChannels;
+      }
+    }
+
+    // Phones stamp the file when recording stops, so date the start back from there
+    const durationMs = (buffer.length / buffer.sampleRate) * 1000;
+    return {
+      samples,
+      sampleRate: buffer.sampleRate,
+      startedAt: new Date((file.lastModified || Date.now()) - durationMs),
+    };
+  } catch (error) {
+    console.error('Error decoding recording:', error);
+    throw new RecordingImportError(`${file.name} could not be decoded. Use a WAV, MP3, M4A or WebM recording.`);
+  } finally {
+    context.close();
+  }
+}
+
+/** The diarized utterance that overlaps a final the most, if any does. */
+const speakerFor = (segments: DiarizedSegment[], final: TranscriptionSegment): string | null => {
+  const start = final.timestamp.getTime();
+  const end = start + (final.durationMs || 0);
+  let best: DiarizedSegment | null = null;
+  let bestOverlap = -Infinity;
+
+  for (const segment of segments) {
+    const overlap = Math.min(end, segment.utterance.endedAt.getTime())
+      - Math.max(start, segment.utterance.startedAt.getTime());
+    if (overlap > bestOverlap) {
+      best = segment;
+      bestOverlap = overlap;
+    }
+  }
+  return best && bestOverlap >= 0 ? best.speaker : null;
+};
+
+/**
+ * Runs a recorded meeting through the same VAD, diarization and engine as
+ * live audio, but as fast as each stage can go. The whole file is analyzed
+ * for speakers first, then transcribed, and each final takes the speaker of
+ * the utterance it overlaps.
+ */
+export class RecordingImporter {
+  private vad = new VoiceActivityDetector();
+  private diarization = new DiarizationService();
+  private engine: TranscriptionEngine | null = null;
+  private cancelled = false;
+
+  constructor(private engineId: string, private expectedLanguages: string[]) {}
+
+  /** Resolves with the transcribed meeting, or null if cancel() was called. */
+  async import(
+    file: File,
+    onProgress?: (progress: RecordingImportProgress) => void
+  ): Promise<RecordingImportResult | null> {
+    const { language } = planRecordingImport(this.engineId, this.expectedLanguages);
+
+    onProgress?.({ stage: 'decoding', fraction: 0 });
+    const audio = await decodeRecording(file);
+    if (this.cancelled) return null;
+
+    await this.loadVoiceProfiles();
+    const diarized = await this.analyze(audio, fraction => onProgress?.({ stage: 'analyzing', fraction }));
+    if (this.cancelled) return null;
+
+    onProgress?.({ stage: 'transcribing', fraction: 0 });
+    const finals = await this.transcribe(audio, language, fraction => onProgress?.({ stage: 'transcribing', fraction }));
+    if (this.cancelled) return null;
+
+    return {
+      startedAt: audio.startedAt,
+      durationMs: (audio.samples.length / audio.sampleRate) * 1000,
+      segments: finals
+        .map(final => ({ ...final, speaker: final.speaker || speakerFor(diarized, final) || 'Speaker 1' }))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+      voiceActivity: this.vad.getStats(),
+    };
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    this.engine?.stop();
+  }
+
+  private async loadVoiceProfiles(): Promise<void> {
+    try {
+      const profiles = await voiceProfileStore.list();
+      this.diarization.diarizer.setKnownSpeakers(profiles.map(profile => ({
+        id: profile.employeeId,
+        label: profile.name,
+        embedding: profile.embedding,
+      })));
+    } catch (error) {
+      // Anonymous speaker labels still work without enrolled profiles
+      console.error('Error loading voice profiles:', error);
+    }
+  }
+
+  private async analyze(audio: RecordedAudio, onProgress: (fraction: number) => void): Promise<DiarizedSegment[]> {
+    const { samples, sampleRate } = audio;
+    const start = audio.startedAt.getTime();
+    const timeAt = (sample: number) => start + (sample / sampleRate) * 1000;
+    const frameSize = Math.round((sampleRate * DEFAULT_VAD_OPTIONS.frameIntervalMs) / 1000);
+
+    const segments: DiarizedSegment[] = [];
+    const unsubscribe = this.diarization.on('segment', segment => segments.push(segment));
+    this.diarization.listen(this.vad);
+    this.vad.startFeed(audio.startedAt);
+
+    try {
+      let buffered = 0;
+      let frames = 0;
+      for (let frame = 0; frame + frameSize <= samples.length; frame += frameSize) {
+        const frameEnd = frame + frameSize;
+        // The diarizer must hold an utterance's audio before the VAD closes it
+        while (buffered < frameEnd) {
+          const blockEnd = Math.min(samples.length, buffered + DIARIZATION_BLOCK_SIZE);
+          this.diarization.pushFrame(samples.subarray(buffered, blockEnd), sampleRate, timeAt(blockEnd));
+          buffered = blockEnd;
+        }
+        this.vad.feed(samples.subarray(frame, frameEnd), sampleRate, timeAt(frameEnd));
+
+        frames += 1;
+        if (frames % FRAMES_PER_YIELD === 0) {
+          onProgress(frameEnd / samples.length);
+          await new Promise(resolve => setTimeout(resolve));
+          if (this.cancelled) return segments;
+        }
+      }
+      this.vad.stop(timeAt(samples.length));
+      onProgress(1);
+    } finally {
+      unsubscribe();
+      this.diarization.stop();
+    }
+    return segments;
+  }
+
+  private async transcribe(
+    audio: RecordedAudio,
+    language: string | undefined,
+    onProgress: (fraction: number) => void
+  ): Promise<TranscriptionSegment[]> {
+    const engine = transcriptionEngineRegistry.create(this.engineId);
+    const finals: TranscriptionSegment[] = [];
+    engine.on('final', segment => finals.push(segment));
+    engine.on('error', (error) => {
+      console.error(`Transcription engine error (${error.code}):`, error.message);
+    });
+
+    this.engine = engine;
+    try {
+      await engine.transcribeRecording?.(audio, { language, onProgress });
+    } finally {
+      this.engine = null;
+    }
+    return finals;
+  }
+}
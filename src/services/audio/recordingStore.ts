@@ -0,0 +1,115 @@
+import {
+  STORES,
+  deleteRecord,
+  getAllByIndex,
+  getAllRecords,
+  getRecord,
+  putRecord,
+} from '@/lib/indexedDb';
+
+export type RecordingStatus = 'recording' | 'complete';
+
+export interface RecordingMetadata {
+  meetingId: string;
+  mimeType: string;
+  startedAt: Date;
+  updatedAt: Date;
+  durationMs: number;
+  chunkCount: number;
+  segmentCount: number;
+  status: RecordingStatus;
+}
+
+export interface AudioChunk {
+  meetingId: string;
+  sequence: number;
+  /** Each MediaRecorder session starts a new container, so chunks are grouped by segment */
+  segment: number;
+  startOffsetMs: number;
+  durationMs: number;
+  mimeType: string;
+  blob: Blob;
+  recordedAt: Date;
+}
+
+/**
+ * Persists meeting audio chunk by chunk so a crash or reload loses at most
+ * one timeslice. A recording still marked "recording" when the app loads was
+ * interrupted and can be recovered from its chunks.
+ */
+class RecordingStore {
+  async getRecording(meetingId: string): Promise<RecordingMetadata | undefined> {
+    return getRecord<RecordingMetadata>(STORES.recordings, meetingId);
+  }
+
+  async beginSegment(meetingId: string, mimeType: string): Promise<RecordingMetadata> {
+    const existing = await this.getRecording(meetingId);
+    const now = new Date();
+    const recording: RecordingMetadata = existing
+      ? { ...existing, status: 'recording', updatedAt: now, segmentCount: existing.segmentCount + 1 }
+      : {
+          meetingId,
+          mimeType,
+          startedAt: now,
+          updatedAt: now,
+          durationMs: 0,
+          chunkCount: 0,
+          segmentCount: 1,
+          status: 'recording',
+        };
+
+    await putRecord(STORES.recordings, recording);
+    return recording;
+  }
+
+  async saveChunk(chunk: AudioChunk): Promise<void> {
+    await putRecord(STORES.audioChunks, chunk);
+
+    const recording = await this.getRecording(chunk.meetingId);
+    if (recording) {
+      await putRecord(STORES.recordings, {
+        ...recording,
+        updatedAt: new Date(),
+        durationMs: Math.max(recording.durationMs, chunk.startOffsetMs + chunk.durationMs),
+        chunkCount: Math.max(recording.chunkCount, chunk.sequence + 1),
+      });
+    }
+  }
+
+  async completeRecording(meetingId: string): Promise<void> {
+    const recording = await this.getRecording(meetingId);
+    if (recording) {
+      await putRecord(STORES.recordings, { ...recording, status: 'complete', updatedAt: new Date() });
+    }
+  }
+
+  async getChunks(meetingId: string): Promise<AudioChunk[]> {
+    const chunks = await getAllByIndex<AudioChunk>(STORES.audioChunks, 'meetingId', meetingId);
+    return chunks.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /** Reassembles the stored chunks into one playable blob per segment. */
+  async getAudioSegments(meetingId: string): Promise<Blob[]> {
+    const chunks = await this.getChunks(meetingId);
+    const segments = new Map<number, AudioChunk[]>();
+    chunks.forEach(chunk => {
+      segments.set(chunk.segment, [...(segments.get(chunk.segment) || []), chunk]);
+    });
+
+    return Array.from(segments.values()).map(
+      parts => new Blob(parts.map(part => part.blob), { type: parts[0].mimeType })
+    );
+  }
+
+  async listInterrupted(): Promise<RecordingMetadata[]> {
+    const recordings = await getAllRecords<RecordingMetadata>(STORES.recordings);
+    return recordings.filter(recording => recording.status === 'recording');
+  }
+
+  async deleteRecording(meetingId: string): Promise<void> {
+    await deleteRecord(STORES.audioChunks, IDBKeyRange.bound([meetingId, 0], [meetingId, Infinity]));
+    await deleteRecord(STORES.recordings, meetingId);
+  }
+}
+
+export const recordingStore = new RecordingStore();
@@ -0,0 +1,324 @@
+import { TypedEmitter } from '@/lib/emitter';
+import { fft } from '@/lib/fft';
+
+export interface VoiceActivityOptions {
+  /** How far above the adaptive noise floor a frame must be to count as speech */
+  energyMarginDb: number;
+  /** Minimum share of spectral energy inside the speech band */
+  minSpeechBandRatio: number;
+  /** Frames flatter than this look like broadband noise rather than voice */
+  maxSpectralFlatness: number;
+  /** Speech must persist this long before speech-start fires */
+  minSpeechMs: number;
+  /** Silence must persist this long before speech-end fires */
+  hangoverMs: number;
+  frameIntervalMs: number;
+}
+
+export interface Utterance {
+  startedAt: Date;
+  endedAt: Date;
+  durationMs: number;
+}
+
+export interface VoiceActivityStats {
+  speechMs: number;
+  silenceMs: number;
+  utteranceCount: number;
+  longestSilenceMs: number;
+}
+
+export interface VoiceActivityFrame {
+  levelDb: number;
+  noiseFloorDb: number;
+  isSpeech: boolean;
+}
+
+export interface VoiceActivityEventMap {
+  speechstart: { startedAt: Date };
+  speechend: Utterance;
+  frame: VoiceActivityFrame;
+}
+
+export const DEFAULT_VAD_OPTIONS: VoiceActivityOptions = {
+  energyMarginDb: 10,
+  minSpeechBandRatio: 0.5,
+  maxSpectralFlatness: 0.6,
+  minSpeechMs: 120,
+  hangoverMs: 400,
+  frameIntervalMs: 20,
+};
+
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+const NOISE_FLOOR_ADAPTATION = 0.05;
+const MIN_NOISE_FLOOR_DB = -90;
+const UTTERANCE_HISTORY = 50;
+const MAX_RESULT_DELAY_MS = 3000;
+
+/**
+ * Fills `output` with a Blackman-windowed power spectrum in dB, the same
+ * scale AnalyserNode.getFloatFrequencyData reports.
+ */
+function measurePowerSpectrum(samples: Float32Array, output: Float32Array): void {
+  const size = output.length * 2;
+  const offset = samples.length - size;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const weight = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / size) + 0.08 * Math.cos((4 * Math.PI * i) / size);
+    real[i] = samples[offset + i] * weight;
+  }
+  fft(real, imag);
+  for (let i = 0; i < output.length; i++) {
+    const magnitude = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) / size;
+    output[i] = magnitude > 0 ? 20 * Math.log10(magnitude) : MIN_NOISE_FLOOR_DB;
+  }
+}
+
+/**
+ * Energy and spectrum based voice activity detection on an AnalyserNode.
+ * A frame is voiced when it is loud relative to the adaptive noise floor,
+ * concentrated in the speech band and not spectrally flat; hangover keeps
+ * short pauses between words from splitting an utterance.
+ *
+ * Recorded audio can be pushed through feed() instead, in which case time
+ * comes from the audio rather than the clock and runs as fast as the caller
+ * supplies frames.
+ */
+export class VoiceActivityDetector {
+  private options: VoiceActivityOptions;
+  private emitter = new TypedEmitter<VoiceActivityEventMap>('voice activity');
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private analyser: AnalyserNode | null = null;
+  private timeData: Float32Array = new Float32Array(0);
+  private freqData: Float32Array = new Float32Array(0);
+
+  private noiseFloorDb: number | null = null;
+  private speaking = false;
+  private candidateSince: number | null = null;
+  private lastSpeechAt = 0;
+  private utteranceStart = 0;
+  private silenceStart = 0;
+  private lastFrameAt = 0;
+  private utterances: Utterance[] = [];
+  private stats: VoiceActivityStats = { speechMs: 0, silenceMs: 0, utteranceCount: 0, longestSilenceMs: 0 };
+
+  constructor(options: Partial<VoiceActivityOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  on<K extends keyof VoiceActivityEventMap>(event: K, listener: (payload: VoiceActivityEventMap[K]) => void): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  setOptions(options: Partial<VoiceActivityOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (this.analyser && this.timer !== null) {
+      this.start(this.analyser);
+    }
+  }
+
+  start(analyser: AnalyserNode): void {
+    this.stopTimer();
+    this.analyser = analyser;
+    this.timeData = new Float32Array(analyser.fftSize);
+    this.freqData = new Float32Array(analyser.frequencyBinCount);
+    this.lastFrameAt = Date.now();
+    this.silenceStart = this.lastFrameAt;
+    this.timer = setInterval(() => this.processFrame(), this.options.frameIntervalMs);
+  }
+
+  /** Prepares for frames pushed through feed(), starting at the given time. */
+  startFeed(startedAt: Date): void {
+    this.stopTimer();
+    this.analyser = null;
+    this.lastFrameAt = startedAt.getTime();
+    this.silenceStart = this.lastFrameAt;
+  }
+
+  /** Analyzes one frame of mono PCM that ends at `endedAt` (epoch ms). */
+  feed(samples: Float32Array, sampleRate: number, endedAt: number): void {
+    // The largest power-of-two window that fits the frame
+    const fftSize = Math.pow(2, Math.floor(Math.log2(samples.length)));
+    if (this.freqData.length !== fftSize / 2) {
+      this.freqData = new Float32Array(fftSize / 2);
+    }
+    this.timeData = samples;
+    measurePowerSpectrum(samples, this.freqData);
+    this.analyzeFrame(endedAt, sampleRate);
+  }
+
+  /**
+   * Stops analysis; an utterance in progress is closed at `endedAt`, which
+   * defaults to the current time.
+   */
+  stop(endedAt = Date.now()): void {
+    this.stopTimer();
+    if (this.speaking) {
+      this.endUtterance(endedAt);
+    }
+    this.candidateSince = null;
+    this.analyser = null;
+  }
+
+  getStats(): VoiceActivityStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Finds the utterance an engine result most likely belongs to: the latest
+   * one that ended shortly before the result arrived. Engines usually
+   * finalize text a moment after the speaker stops.
+   */
+  findUtterance(at: Date, maxDelayMs = MAX_RESULT_DELAY_MS): Utterance | null {
+    for (let i = this.utterances.length - 1; i >= 0; i--) {
+      const utterance = this.utterances[i];
+      if (utterance.startedAt > at) continue;
+      return at.getTime() - utterance.endedAt.getTime() <= maxDelayMs ? utterance : null;
+    }
+    return null;
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private processFrame(): void {
+    const analyser = this.analyser;
+    if (!analyser) return;
+
+    analyser.getFloatTimeDomainData(this.timeData);
+    analyser.getFloatFrequencyData(this.freqData);
+    this.analyzeFrame(Date.now(), analyser.context.sampleRate);
+  }
+
+  private analyzeFrame(now: number, sampleRate: number): void {
+    const elapsed = now - this.lastFrameAt;
+    this.lastFrameAt = now;
+
+    const levelDb = this.measureLevel();
+    const { bandRatio, flatness } = this.measureSpectrum(sampleRate);
+
+    if (this.noiseFloorDb === null) {
+      this.noiseFloorDb = levelDb;
+    }
+
+    const isSpeech = levelDb > this.noiseFloorDb + this.options.energyMarginDb
+      && bandRatio >= this.options.minSpeechBandRatio
+      && flatness <= this.options.maxSpectralFlatness;
+
+    // Only learn the noise floor from frames that are not speech
+    if (!isSpeech) {
+      this.noiseFloorDb = Math.max(
+        MIN_NOISE_FLOOR_DB,
+        this.noiseFloorDb + (levelDb - this.noiseFloorDb) * NOISE_FLOOR_ADAPTATION
+      );
+    }
+
+    if (this.speaking) {
+      this.stats.speechMs += elapsed;
+    } else {
+      this.stats.silenceMs += elapsed;
+    }
+
+    this.updateState(isSpeech, now);
+    this.emitter.emit('frame', { levelDb, noiseFloorDb: this.noiseFloorDb, isSpeech });
+  }
+
+  private updateState(isSpeech: boolean, now: number): void {
+    if (isSpeech) {
+      this.lastSpeechAt = now;
+    }
+
+    if (!this.speaking) {
+      if (!isSpeech) {
+        this.candidateSince = null;
+        return;
+      }
+      if (this.candidateSince === null) {
+        this.candidateSince = now;
+      }
+      if (now - this.candidateSince >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.utteranceStart = this.candidateSince;
+        this.candidateSince = null;
+        this.stats.longestSilenceMs = Math.max(this.stats.longestSilenceMs, this.utteranceStart - this.silenceStart);
+        this.emitter.emit('speechstart', { startedAt: new Date(this.utteranceStart) });
+      }
+      return;
+    }
+
+    if (!isSpeech && now - this.lastSpeechAt >= this.options.hangoverMs) {
+      this.endUtterance(this.lastSpeechAt);
+    }
+  }
+
+  private endUtterance(endedAt: number): void {
+    this.speaking = false;
+    this.silenceStart = endedAt;
+
+    const utterance: Utterance = {
+      startedAt: new Date(this.utteranceStart),
+      endedAt: new Date(endedAt),
+      durationMs: Math.max(0, endedAt - this.utteranceStart),
+    };
+    this.utterances.push(utterance);
+    if (this.utterances.length > UTTERANCE_HISTORY) {
+      this.utterances.shift();
+    }
+    this.stats.utteranceCount += 1;
+    this.emitter.emit('speechend', utterance);
+  }
+
+  private measureLevel(): number {
+    let sum = 0;
+    for (let i = 0; i < this.timeData.length; i++) {
+      sum += this.timeData[i] * this.timeData[i];
+    }
+    const rms = Math.sqrt(sum / this.timeData.length);
+    return rms > 0 ? 20 * Math.log10(rms) : MIN_NOISE_FLOOR_DB;
+  }
+
+  private measureSpectrum(sampleRate: number): { bandRatio: number; flatness: number } {
+    const binHz = sampleRate / 2 / this.freqData.length;
+    const [low, high] = SPEECH_BAND_HZ;
+
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    let linearSum = 0;
+    let bandBins = 0;
+
+    for (let i = 1; i < this.freqData.length; i++) {
+      const power = Math.pow(10, this.freqData[i] / 10);
+      total += power;
+
+      const hz = i * binHz;
+      if (hz >= low && hz <= high) {
+        band += power;
+        logSum += Math.log(power + 1e-20);
+        linearSum += power;
+        bandBins += 1;
+      }
+    }
+
+    const bandRatio = total > 0 ? band / total : 0;
+    // Geometric over arithmetic mean: near 1 for white noise, low for voice
+    const flatness = bandBins > 0 && linearSum > 0
+      ? Math.exp(logSum / bandBins) / (linearSum / bandBins)
+      : 1;
+
+    return { bandRatio, flatness };
+  }
+}
@@ -0,0 +1,65 @@
+// Everyday English, weighted towards meetings: function words, common verbs
+// and nouns, and words that end like romanized Tamil ("bottle", "bottom",
+// "available"). Not a full dictionary, just enough to keep ordinary English
+// from being read as Tamil and to recognize English stems in Tanglish
+// words such as "meetingku".
+const COMMON_ENGLISH = new Set([
+  // Function words
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any',
+  'are', 'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both',
+  'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'either',
+  'else', 'even', 'ever', 'every', 'few', 'for', 'from', 'further', 'had', 'has', 'have',
+  'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'just', 'least', 'less', 'like', 'many', 'may', 'me', 'might', 'more', 'most',
+  'much', 'must', 'my', 'neither', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once',
+  'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'per', 'same', 'shall', 'she',
+  'should', 'since', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'though', 'through', 'till', 'to', 'too', 'under',
+  'until', 'up', 'upon', 'us', 'very', 'via', 'was', 'we', 'were', 'what', 'when', 'where',
+  'whether', 'which', 'while', 'who', 'whole', 'whom', 'whose', 'why', 'will', 'with',
+  'within', 'without', 'would', 'yes', 'yet', 'you', 'your', 'yours',
+  // Verbs
+  'add', 'agree', 'allow', 'answer', 'ask', 'begin', 'bring', 'build', 'buy', 'call', 'cancel',
+  'change', 'check', 'close', 'come', 'confirm', 'continue', 'create', 'cut', 'decide',
+  'deliver', 'discuss', 'done', 'drop', 'email', 'end', 'explain', 'find', 'finish', 'fix',
+  'follow', 'get', 'give', 'go', 'going', 'gone', 'got', 'happen', 'hear', 'help',
+  'hold', 'join', 'keep', 'know', 'leave', 'let', 'listen', 'look', 'make', 'mean', 'meet',
+  'miss', 'move', 'need', 'open', 'pay', 'plan', 'post', 'print', 'push', 'put', 'read',
+  'reply', 'review', 'run', 'say', 'see', 'sell', 'send', 'set', 'settle', 'share', 'show',
+  'sign', 'speak', 'start', 'stop', 'take', 'talk', 'tell', 'test', 'think', 'try', 'turn',
+  'update', 'use', 'wait', 'want', 'work', 'write',
+  // Nouns
+  'account', 'action', 'address', 'agenda', 'amount', 'app', 'bank', 'bill', 'board', 'book',
+  'boss', 'branch', 'budget', 'bug', 'business', 'cab', 'car', 'case', 'cash',
+  'chat', 'city', 'class', 'client', 'college', 'code', 'company', 'cost', 'customer', 'data', 'date',
+  'day', 'deadline', 'deal', 'demo', 'design', 'desk', 'doc', 'document', 'door', 'draft',
+  'exam', 'feature', 'fee', 'floor', 'form', 'friend', 'home', 'hour', 'house', 'idea',
+  'issue', 'item', 'job', 'laptop', 'link', 'list', 'loan', 'lunch', 'mail',
+  'manager', 'market', 'meeting', 'message', 'minute', 'money', 'month', 'night', 'note',
+  'number', 'office', 'order', 'page', 'party', 'payment', 'phone', 'point', 'price',
+  'presentation', 'problem', 'product', 'project', 'question', 'release', 'report', 'room', 'sales', 'school',
+  'screen', 'server', 'service', 'session', 'sheet', 'shop', 'site', 'slide', 'sprint',
+  'status', 'store', 'system', 'target', 'task', 'team', 'ticket', 'time', 'today',
+  'tomorrow', 'topic', 'train', 'travel', 'trip', 'version', 'video', 'week', 'weekend',
+  'year', 'yesterday', 'zoom',
+  // Adjectives and adverbs
+  'actually', 'already', 'always', 'bad', 'basically', 'best', 'better', 'big', 'busy',
+  'clear', 'correct', 'early', 'easy', 'enough', 'fast', 'fine', 'free', 'good', 'great',
+  'hard', 'high', 'important', 'last', 'late', 'later', 'long', 'low', 'maybe', 'new', 'next',
+  'nice', 'okay', 'ok', 'old', 'ready', 'really', 'right', 'small', 'soon', 'still', 'sure',
+  'urgent', 'well', 'wrong',
+  // Words with the same endings as Tamil case and verb suffixes
+  'able', 'apple', 'article', 'available', 'bengal', 'bible', 'bottle', 'bottom', 'bubble',
+  'bundle', 'cable', 'candle', 'capable', 'castle', 'circle', 'couple', 'cycle', 'double',
+  'example', 'female', 'file', 'gale', 'google', 'handle', 'haiku', 'idle', 'impossible',
+  'little', 'male', 'middle', 'mobile', 'module', 'needle', 'pale', 'people', 'possible',
+  'principle', 'puzzle', 'reliable', 'responsible', 'role', 'rule', 'sale', 'sample', 'scale',
+  'schedule', 'simple', 'single', 'startle', 'style', 'suitable', 'table', 'tale', 'title',
+  'trouble', 'uncle', 'vehicle', 'whale', 'cola', 'formula', 'gala', 'gorilla', 'koala',
+  'ola', 'tesla', 'umbrella', 'vanilla', 'villa',
+]);
+
+/** True for common English words, given in lowercase. */
+export function isCommonEnglishWord(word: string): boolean {
+  return COMMON_ENGLISH.has(word);
+}
@@ -0,0 +1,136 @@
+import { DEFAULT_LANGUAGE, languageRegistry } from './languageRegistry';
+import { isCommonEnglishWord } from './englishWords';
+
+export interface LanguageSpan {
+  text: string;
+  /** Registry display name, e.g. "Tamil" */
+  language: string;
+  /** Tamil written in Latin letters ("Tanglish") rather than Tamil script */
+  romanized?: boolean;
+}
+
+export interface CodeSwitchStats {
+  speaker: string;
+  entries: number;
+  mixedEntries: number;
+  /** Share of the speaker's entries that switch language mid-utterance */
+  ratio: number;
+}
+
+const LATIN_WORD = /^[a-z]+(?:'[a-z]+)?$/;
+
+// Everyday romanized Tamil that rarely collides with English words
+const ROMANIZED_TAMIL = new Set([
+  'aama', 'aamaa', 'adhu', 'athu', 'anga', 'appo', 'appadi', 'avan', 'aval', 'avanga',
+  'da', 'di', 'ellam', 'ellaam', 'enakku', 'enaku', 'enga', 'enna', 'ennaku', 'epdi',
+  'eppadi', 'eppo', 'idhu', 'ithu', 'illa', 'illai', 'illaya', 'inga', 'innaiku', 'ippo',
+  'irukku', 'iruku', 'irukkum', 'kandippa', 'kaasu', 'konjam', 'machan', 'machi', 'mudiyathu',
+  'mudiyum', 'naalaikku', 'nalaiku', 'nalla', 'namma', 'naan', 'naanga', 'neenga', 'nee',
+  'neram', 'panam', 'pannu', 'pannunga', 'pannalam', 'paaru', 'paarunga', 'poda', 'ponga',
+  'puriyala', 'puriyuthu', 'romba', 'saapadu', 'sari', 'seekiram', 'seri', 'sollu',
+  'sollunga', 'theriyala', 'theriyum', 'unakku', 'unaku', 'ungaluku', 'ungalukku', 'vaa',
+  'vaanga', 'vanakkam', 'vanga', 'velai', 'vendam', 'venam', 'venum', 'yaaru', 'yenna',
+]);
+
+// Verb and case endings that mark a Latin word as Tamil when it is not in
+// the lexicon, e.g. "finishpannunga", "meetingukku"
+const ROMANIZED_SUFFIX = /(?:pannunga|pannu|panrom|unga|ngal|kku|aachu|ichu|iruku|irukku|laam)$/;
+
+// Endings that plenty of English words share ("bottle", "bottom", "uncle"),
+// so they only count after a stem that is itself a known word, as in
+// "meetingku" or "officela"
+const SHORT_SUFFIX = /(?:ttom|ku|la|le)$/;
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * True for a lowercase Latin word with evidence of being romanized Tamil:
+ * a lexicon hit, or a Tamil ending on something that is not common English.
+ */
+export function looksRomanizedTamil(word: string): boolean {
+  if (ROMANIZED_TAMIL.has(word)) return true;
+  if (word.length <= MIN_STEM_LENGTH || isCommonEnglishWord(word)) return false;
+  if (ROMANIZED_SUFFIX.test(word)) return true;
+
+  const stem = word.replace(SHORT_SUFFIX, '');
+  return stem !== word && stem.length >= MIN_STEM_LENGTH &&
+    (ROMANIZED_TAMIL.has(stem) || isCommonEnglishWord(stem));
+}
+
+const classifyWord = (word: string, candidates?: string[]): LanguageSpan | null => {
+  // Native scripts are unambiguous, so they are tagged even when unexpected
+  const native = languageRegistry.detectScript(word);
+  if (native) return { text: word, language: native.name };
+
+  const normalized = word.toLowerCase().replace(/[^a-z']/g, '');
+  if (!LATIN_WORD.test(normalized)) return null;
+
+  const expects = (name: string) => !candidates || candidates.includes(name);
+  if (expects('Tamil') && looksRomanizedTamil(normalized)) {
+    return { text: word, language: 'Tamil', romanized: true };
+  }
+  // Without English in the meeting, Latin text is the expected language typed phonetically
+  if (!expects(DEFAULT_LANGUAGE) && candidates.length > 0) {
+    return { text: word, language: candidates[0], romanized: true };
+  }
+  return { text: word, language: DEFAULT_LANGUAGE };
+};
+
+/**
+ * Splits an utterance into runs of each registered script, romanized Tamil
+ * and English. Passing the meeting's expected languages narrows how Latin
+ * words are read. Numbers and punctuation join the run they sit in, so
+ * joining the span texts always gives back the original string.
+ */
+export function tagLanguageSpans(text: string, candidates?: string[]): LanguageSpan[] {
+  const spans: LanguageSpan[] = [];
+  let pending = '';
+
+  for (const token of text.split(/(\s+)/)) {
+    const tagged = token.trim() ? classifyWord(token, candidates) : null;
+    const last = spans[spans.length - 1];
+
+    if (!tagged) {
+      pending += token;
+    } else if (last && last.language === tagged.language && !!last.romanized === !!tagged.romanized) {
+      last.text += pending + token;
+      pending = '';
+    } else {
+      if (last) {
+        last.text += pending;
+      } else {
+        tagged.text = pending + tagged.text;
+      }
+      pending = '';
+      spans.push(tagged);
+    }
+  }
+
+  if (spans.length === 0) return text ? [{ text, language: candidates?.[0] || DEFAULT_LANGUAGE }] : [];
+  spans[spans.length - 1].text += pending;
+  return spans;
+}
+
+/** True when the spans contain more than one language. */
+export function isCodeSwitched(spans: LanguageSpan[]): boolean {
+  return spans.some(span => span.language !== spans[0].language);
+}
+
+/** Per-speaker share of entries that mix languages. */
+export function getCodeSwitchStats(
+  entries: Array<{ speaker: string; spans?: LanguageSpan[] }>
+): CodeSwitchStats[] {
+  const bySpeaker = new Map<string, CodeSwitchStats>();
+
+  for (const entry of entries) {
+    const stats = bySpeaker.get(entry.speaker)
+      || { speaker: entry.speaker, entries: 0, mixedEntries: 0, ratio: 0 };
+    stats.entries += 1;
+    if (entry.spans && isCodeSwitched(entry.spans)) {
+      stats.mixedEntries += 1;
+    }
+    stats.ratio = stats.mixedEntries / stats.entries;
+    bySpeaker.set(entry.speaker, stats);
+  }
+
+  return Array.from(bySpeaker.values());
+}
@@ -0,0 +1,161 @@
+export interface LanguageDefinition {
+  /** ISO 639-1 code */
+  code: string;
+  /** Display name, also the label stored on transcript entries */
+  name: string;
+  /** Recognition locale passed to the speech engines */
+  bcp47: string;
+  /** Unicode block of the native script; English has none */
+  script?: RegExp;
+  /** Short label for badges and stats */
+  badge: string;
+  flag: string;
+  /** Font stack that renders the script well on common systems */
+  fontFamily?: string;
+}
+
+export const DEFAULT_LANGUAGE = 'English';
+
+const EXPECTED_LANGUAGES_KEY = 'expectedLanguages';
+const DEFAULT_EXPECTED_LANGUAGES = ['Tamil', 'English'];
+
+const LANGUAGES: LanguageDefinition[] = [
+  {
+    code: 'ta',
+    name: 'Tamil',
+    bcp47: 'ta-IN',
+    script: /[\u0B80-\u0BFF]/,
+    badge: 'TA',
+    flag: '🇮🇳',
+    fontFamily: "'Noto Sans Tamil', 'Latha', 'Tamil Sangam MN', sans-serif",
+  },
+  {
+    code: 'en',
+    name: 'English',
+    bcp47: 'en-IN',
+    badge: 'EN',
+    flag: '🇬🇧',
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    bcp47: 'hi-IN',
+    script: /[\u0900-\u097F]/,
+    badge: 'HI',
+    flag: '🇮🇳',
+    fontFamily: "'Noto Sans Devanagari', 'Mangal', 'Devanagari Sangam MN', sans-serif",
+  },
+  {
+    code: 'te',
+    name: 'Telugu',
+    bcp47: 'te-IN',
+    script: /[\u0C00-\u0C7F]/,
+    badge: 'TE',
+    flag: '🇮🇳',
+    fontFamily: "'Noto Sans Telugu', 'Gautami', 'Telugu Sangam MN', sans-serif",
+  },
+  {
+    code: 'ml',
+    name: 'Malayalam',
+    bcp47: 'ml-IN',
+    script: /[\u0D00-\u0D7F]/,
+    badge: 'ML',
+    flag: '🇮🇳',
+    fontFamily: "'Noto Sans Malayalam', 'Kartika', 'Malayalam Sangam MN', sans-serif",
+  },
+  {
+    code: 'kn',
+    name: 'Kannada',
+    bcp47: 'kn-IN',
+    script: /[\u0C80-\u0CFF]/,
+    badge: 'KN',
+    flag: '🇮🇳',
+    fontFamily: "'Noto Sans Kannada', 'Tunga', 'Kannada Sangam MN', sans-serif",
+  },
+];
+
+class LanguageRegistry {
+  private languages = new Map<string, LanguageDefinition>();
+
+  register(language: LanguageDefinition): void {
+    this.languages.set(language.code, language);
+  }
+
+  list(): LanguageDefinition[] {
+    return Array.from(this.languages.values());
+  }
+
+  get(code: string): LanguageDefinition | undefined {
+    return this.languages.get(code);
+  }
+
+  /** Looks a language up by its display name, as stored on entries. */
+  getByName(name: string): LanguageDefinition | undefined {
+    return this.list().find(language => language.name === name);
+  }
+
+  getByLocale(bcp47: string): LanguageDefinition | undefined {
+    return this.list().find(language => language.bcp47 === bcp47);
+  }
+
+  /** Returns the language whose native script appears in the text, if any. */
+  detectScript(text: string): LanguageDefinition | undefined {
+    return this.list().find(language => language.script?.test(text));
+  }
+
+  /**
+   * Builds the locale → name map engines expose for their language picker,
+   * optionally limited to the locales an engine can actually recognize.
+   */
+  getLocaleNames(locales?: string[]): Record<string, string> {
+    const names: Record<string, string> = {};
+    for (const language of this.list()) {
+      if (!locales || locales.includes(language.bcp47)) {
+        names[language.bcp47] = language.name;
+      }
+    }
+    return names;
+  }
+
+  getBadge(name: string): string {
+    return this.getByName(name)?.badge || name.slice(0, 2).toUpperCase();
+  }
+
+  getFlag(name: string): string {
+    return this.getByName(name)?.flag || '🌐';
+  }
+
+  /**
+   * Languages the host expects in the next meeting, by display name. Kept
+   * between sessions since most teams hold their meetings in the same mix.
+   */
+  getExpectedLanguages(): string[] {
+    try {
+      const saved = localStorage.getItem(EXPECTED_LANGUAGES_KEY);
+      if (saved) {
+        const names = (JSON.parse(saved) as string[]).filter(name => this.getByName(name));
+        if (names.length > 0) return names;
+      }
+    } catch (error) {
+      console.error('Error loading expected languages:', error);
+    }
+    return DEFAULT_EXPECTED_LANGUAGES;
+  }
+
+  setExpectedLanguages(names: string[]): void {
+    try {
+      localStorage.setItem(EXPECTED_LANGUAGES_KEY, JSON.stringify(names));
+    } catch (error) {
+      console.error('Error saving expected languages:', error);
+    }
+  }
+
+  /** Human readable list of languages, e.g. "Tamil, English & Hindi". Defaults to all. */
+  describe(names: string[] = this.list().map(language => language.name)): string {
+    if (names.length < 2) return names.join('');
+    return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+  }
+}
+
+export const languageRegistry = new LanguageRegistry();
+LANGUAGES.forEach(language => languageRegistry.register(language));
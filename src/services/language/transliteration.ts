@@ -0,0 +1,302 @@
+import { loadGlossary } from '@/services/translation/glossaryProvider';
+import { LanguageSpan, looksRomanizedTamil } from './languageIdentifier';
+
+export type RomanizationScheme = 'iso15919' | 'casual';
+
+/**
+ * How Tamil is shown: as spoken (original), romanized with either scheme,
+ * or with romanized Tamil converted back into Tamil script.
+ */
+export type TransliterationMode = 'original' | RomanizationScheme | 'tamil';
+
+export const TRANSLITERATION_MODES: Record<TransliterationMode, string> = {
+  original: 'Original',
+  casual: 'Romanized',
+  iso15919: 'ISO 15919',
+  tamil: 'Tamil script',
+};
+
+interface VowelForm {
+  letter: string;
+  sign: string;
+  iso: string;
+  casual: string;
+}
+
+const VOWELS: VowelForm[] = [
+  { letter: 'அ', sign: '', iso: 'a', casual: 'a' },
+  { letter: 'ஆ', sign: 'ா', iso: 'ā', casual: 'aa' },
+  { letter: 'இ', sign: 'ி', iso: 'i', casual: 'i' },
+  { letter: 'ஈ', sign: 'ீ', iso: 'ī', casual: 'ee' },
+  { letter: 'உ', sign: 'ு', iso: 'u', casual: 'u' },
+  { letter: 'ஊ', sign: 'ூ', iso: 'ū', casual: 'oo' },
+  { letter: 'எ', sign: 'ெ', iso: 'e', casual: 'e' },
+  { letter: 'ஏ', sign: 'ே', iso: 'ē', casual: 'e' },
+  { letter: 'ஐ', sign: 'ை', iso: 'ai', casual: 'ai' },
+  { letter: 'ஒ', sign: 'ொ', iso: 'o', casual: 'o' },
+  { letter: 'ஓ', sign: 'ோ', iso: 'ō', casual: 'o' },
+  { letter: 'ஔ', sign: 'ௌ', iso: 'au', casual: 'au' },
+];
+
+interface ConsonantForm {
+  iso: string;
+  /** Casual spelling at the start of a word */
+  casual: string;
+  /** Casual spelling between vowels, where Tamil stops soften */
+  voiced?: string;
+  /** Casual spelling after a nasal, e.g. "nd" in "vandhaan" */
+  afterNasal?: string;
+  /** Casual spelling after another consonant, e.g. the second half of "pacchai" */
+  hard?: string;
+  /** Casual spelling of the first half of a doubled consonant */
+  geminate?: string;
+  /** Casual spelling when the consonant closes a syllable */
+  coda?: string;
+  nasal?: boolean;
+}
+
+const CONSONANTS: Record<string, ConsonantForm> = {
+  'க': { iso: 'k', casual: 'k', voiced: 'g', afterNasal: 'g' },
+  'ங': { iso: 'ṅ', casual: 'ng', coda: 'n', nasal: true },
+  'ச': { iso: 'c', casual: 's', afterNasal: 'j', hard: 'ch', geminate: 'c' },
+  'ஞ': { iso: 'ñ', casual: 'nj', coda: 'n', nasal: true },
+  'ட': { iso: 'ṭ', casual: 't', voiced: 'd', afterNasal: 'd' },
+  'ண': { iso: 'ṇ', casual: 'n', nasal: true },
+  'த': { iso: 't', casual: 'th', voiced: 'dh', afterNasal: 'dh', geminate: 't' },
+  'ந': { iso: 'n', casual: 'n', nasal: true },
+  'ப': { iso: 'p', casual: 'p', afterNasal: 'b' },
+  'ம': { iso: 'm', casual: 'm', nasal: true },
+  'ய': { iso: 'y', casual: 'y' },
+  'ர': { iso: 'r', casual: 'r' },
+  'ல': { iso: 'l', casual: 'l' },
+  'வ': { iso: 'v', casual: 'v' },
+  'ழ': { iso: 'ḻ', casual: 'zh' },
+  'ள': { iso: 'ḷ', casual: 'l' },
+  'ற': { iso: 'ṟ', casual: 'r', afterNasal: 'dr', geminate: 't' },
+  'ன': { iso: 'ṉ', casual: 'n', nasal: true },
+  'ஜ': { iso: 'j', casual: 'j' },
+  'ஷ': { iso: 'ṣ', casual: 'sh' },
+  'ஸ': { iso: 's', casual: 's' },
+  'ஹ': { iso: 'h', casual: 'h' },
+  'ஶ': { iso: 'ś', casual: 'sh' },
+};
+
+const VIRAMA = '்';
+const AAYTHAM = 'ஃ';
+const AU_LENGTH_MARK = 'ௗ';
+
+const VOWEL_BY_LETTER = new Map(VOWELS.map(vowel => [vowel.letter, vowel]));
+const VOWEL_BY_SIGN = new Map(VOWELS.filter(vowel => vowel.sign).map(vowel => [vowel.sign, vowel]));
+
+const isTamilLetter = (char: string | undefined): boolean =>
+  !!char && (!!CONSONANTS[char] || VOWEL_BY_LETTER.has(char) || VOWEL_BY_SIGN.has(char) || char === VIRAMA);
+
+// Casual spellings follow pronunciation: stops are voiceless at the start
+// of a word and when doubled ("pattu"), voiced between vowels and after
+// nasals ("thodanguvom").
+const casualConsonant = (chars: string[], i: number): string => {
+  const char = chars[i];
+  const form = CONSONANTS[char];
+  const closed = chars[i + 1] === VIRAMA;
+
+  if (closed && chars[i + 2] === char) return form.geminate ?? form.casual;
+  if (closed && form.coda) return form.coda;
+  if (!isTamilLetter(chars[i - 1])) return form.casual;
+
+  if (chars[i - 1] === VIRAMA) {
+    const previous = CONSONANTS[chars[i - 2]];
+    if (previous?.nasal) return form.afterNasal ?? form.casual;
+    return form.hard ?? form.casual;
+  }
+  return form.voiced ?? form.casual;
+};
+
+/** Romanizes Tamil script, leaving any other text untouched. */
+export function romanizeTamil(text: string, scheme: RomanizationScheme = 'casual'): string {
+  const chars = Array.from(text);
+  let output = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const consonant = CONSONANTS[char];
+
+    if (consonant) {
+      output += scheme === 'iso15919' ? consonant.iso : casualConsonant(chars, i);
+      const vowel = VOWEL_BY_SIGN.get(chars[i + 1]);
+      if (vowel) {
+        output += scheme === 'iso15919' ? vowel.iso : vowel.casual;
+        i += 1;
+      } else if (chars[i + 1] === VIRAMA) {
+        i += 1;
+      } else {
+        output += 'a';
+      }
+    } else if (VOWEL_BY_LETTER.has(char)) {
+      const vowel = VOWEL_BY_LETTER.get(char);
+      output += scheme === 'iso15919' ? vowel.iso : vowel.casual;
+    } else if (char === AAYTHAM) {
+      output += scheme === 'iso15919' ? 'ḵ' : 'h';
+    } else if (char === AU_LENGTH_MARK) {
+      output += 'au';
+    } else {
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+interface RomanToken {
+  vowel?: VowelForm;
+  consonants?: string[];
+}
+
+const buildTokens = (scheme: RomanizationScheme): Array<[string, RomanToken]> => {
+  const tokens = new Map<string, RomanToken>();
+  for (const vowel of VOWELS) {
+    const spelling = scheme === 'iso15919' ? vowel.iso : vowel.casual;
+    // Casual "e" and "o" could be short or long; read them as short
+    if (!tokens.has(spelling)) tokens.set(spelling, { vowel });
+  }
+
+  if (scheme === 'iso15919') {
+    for (const [letter, form] of Object.entries(CONSONANTS)) {
+      tokens.set(form.iso, { consonants: [letter] });
+    }
+  } else {
+    const casual: Record<string, string[]> = {
+      k: ['க'], g: ['க'], ng: ['ங', 'க'], ngk: ['ங', 'க'], ngg: ['ங', 'க'], nj: ['ஞ', 'ச'], s: ['ச'], ch: ['ச'], c: ['ச'], cch: ['ச', 'ச'],
+      t: ['ட'], d: ['ட'], th: ['த'], dh: ['த'], p: ['ப'], b: ['ப'], m: ['ம'],
+      y: ['ய'], r: ['ர'], l: ['ல'], v: ['வ'], w: ['வ'], zh: ['ழ'], tr: ['ற', 'ற'],
+      j: ['ஜ'], sh: ['ஷ'], h: ['ஹ'], n: ['ன'], ndr: ['ன', 'ற'],
+    };
+    for (const [spelling, consonants] of Object.entries(casual)) {
+      tokens.set(spelling, { consonants });
+    }
+    tokens.set('ii', { vowel: VOWEL_BY_LETTER.get('ஈ') });
+    tokens.set('uu', { vowel: VOWEL_BY_LETTER.get('ஊ') });
+    tokens.set('ae', { vowel: VOWEL_BY_LETTER.get('ஏ') });
+  }
+
+  // Longest spellings first so "th" wins over "t"
+  return Array.from(tokens.entries()).sort((a, b) => b[0].length - a[0].length);
+};
+
+const TOKENS: Record<RomanizationScheme, Array<[string, RomanToken]>> = {
+  casual: buildTokens('casual'),
+  iso15919: buildTokens('iso15919'),
+};
+
+const toTamilWord = (word: string, scheme: RomanizationScheme): string => {
+  const tokens = TOKENS[scheme];
+  let output = '';
+  // A consonant still waiting for its vowel; it gets a virama if none comes
+  let pending = false;
+  let position = 0;
+
+  while (position < word.length) {
+    const match = tokens.find(([spelling]) => word.startsWith(spelling, position));
+    if (!match) {
+      if (pending) output += VIRAMA;
+      pending = false;
+      output += word[position];
+      position += 1;
+      continue;
+    }
+
+    const [spelling, token] = match;
+    const atStart = position === 0;
+    position += spelling.length;
+
+    if (token.vowel) {
+      output += pending ? token.vowel.sign : token.vowel.letter;
+      pending = false;
+      continue;
+    }
+
+    let consonants = token.consonants;
+    // Casual "n" is ந at the start of a word and before "th"/"dh", ண before
+    // a bare "t"/"d", and ன elsewhere
+    if (scheme === 'casual' && spelling === 'n') {
+      const rest = word.slice(position);
+      if (atStart || /^[td]h/.test(rest)) consonants = ['ந'];
+      else if (/^[td]/.test(rest)) consonants = ['ண'];
+    }
+    // Inside a word a lone "ch" is almost always the doubled sound, as in "aachu"
+    if (scheme === 'casual' && spelling === 'ch' && !atStart) {
+      consonants = ['ச', 'ச'];
+    }
+
+    for (const consonant of consonants) {
+      if (pending) output += VIRAMA;
+      output += consonant;
+      pending = true;
+    }
+  }
+
+  if (pending) output += VIRAMA;
+  return output;
+};
+
+// Casual spellings disagree on vowel length and doubled letters, so
+// spellings are compared with both collapsed
+const spellingKey = (romanized: string): string => romanized.replace(/(.)\1+/g, '$1');
+
+let knownSpellings: Map<string, string> | null = null;
+
+/**
+ * Romanized forms from the glossary that spell their Tamil word, rather
+ * than being a colloquial synonym of it. Casual spelling cannot tell ண
+ * from ன ("vanakkam" is வணக்கம்), so these are looked up before the letters
+ * are converted one by one.
+ */
+const getKnownSpellings = (): Map<string, string> => {
+  if (!knownSpellings) {
+    knownSpellings = new Map();
+    for (const entry of loadGlossary()) {
+      if (/\s/.test(entry.ta.trim())) continue;
+      const key = spellingKey(romanizeTamil(entry.ta));
+      for (const form of entry.romanized || []) {
+        if (spellingKey(form.toLowerCase()) === key) knownSpellings.set(form.toLowerCase(), entry.ta);
+      }
+    }
+  }
+  return knownSpellings;
+};
+
+/** Converts romanized Tamil back into Tamil script, word by word. */
+export function toTamilScript(text: string, scheme: RomanizationScheme = 'casual'): string {
+  return text.replace(/[a-zA-Zāīūēōṅñṭṇḻḷṟṉṣśḵ]+/g, (word) => {
+    const lower = word.toLowerCase();
+    return (scheme === 'casual' && getKnownSpellings().get(lower)) || toTamilWord(lower, scheme);
+  });
+}
+
+/**
+ * Returns display copies of the spans in the requested mode. Only Tamil
+ * spans change; the original spans are never modified. Romanized spans
+ * can carry English words the identifier let through, so converting to
+ * Tamil script only touches words that look Tamil on their own.
+ */
+export function transliterateSpans(spans: LanguageSpan[], mode: TransliterationMode): LanguageSpan[] {
+  if (mode === 'original') return spans;
+
+  return spans.map((span) => {
+    if (span.language !== 'Tamil') return span;
+    if (mode === 'tamil') {
+      if (!span.romanized) return span;
+      const text = span.text.replace(/[A-Za-z]+(?:'[A-Za-z]+)?/g, word =>
+        looksRomanizedTamil(word.toLowerCase()) ? toTamilScript(word) : word
+      );
+      return { ...span, text, romanized: /[A-Za-z]/.test(text) };
+    }
+    return span.romanized ? span : { ...span, text: romanizeTamil(span.text, mode), romanized: true };
+  });
+}
+
+/** Transliterates a whole entry's text, using its spans when it has them. */
+export function transliterateText(text: string, spans: LanguageSpan[] | undefined, mode: TransliterationMode): string {
+  if (mode === 'original') return text;
+  if (!spans) return mode === 'tamil' ? text : romanizeTamil(text, mode);
+  return transliterateSpans(spans, mode).map(span => span.text).join('');
+}
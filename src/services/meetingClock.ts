@@ -0,0 +1,135 @@
+export type MeetingClockState = 'idle' | 'running' | 'paused' | 'stopped';
+
+export type MeetingMarkerKind = 'paused' | 'resumed' | 'stopped' | 'bookmark';
+
+/** A break in recording or a bookmark, shown in the transcript between entries */
+export interface MeetingMarker {
+  id: string;
+  kind: MeetingMarkerKind;
+  timestamp: Date;
+  /** How long recording was off, on resumed markers */
+  gapMs?: number;
+}
+
+export interface MeetingInterval {
+  startedAt: Date;
+  /** null while the interval is still recording */
+  endedAt: Date | null;
+}
+
+export interface MeetingClockSnapshot {
+  state: MeetingClockState;
+  startedAt: Date | null;
+  /** Time spent recording, leaving out pauses and stops */
+  activeMs: number;
+  /** Time from the first start to the last stop, or to now while recording */
+  wallClockMs: number;
+  intervals: MeetingInterval[];
+  markers: MeetingMarker[];
+}
+
+interface Interval {
+  start: number;
+  end: number | null;
+}
+
+/**
+ * Tracks when a meeting was actually being recorded. Each start or resume
+ * opens an active interval and each pause or stop closes it, so the active
+ * duration leaves out breaks while the wall-clock duration spans them.
+ * Restarting after a stop continues the same meeting. Every break leaves
+ * markers for the transcript, as do bookmarks.
+ */
+export class MeetingClock {
+  private state: MeetingClockState = 'idle';
+  private intervals: Interval[] = [];
+  private markers: MeetingMarker[] = [];
+  private stoppedAt: number | null = null;
+
+  constructor(private now: () => number = Date.now) {}
+
+  start(): void {
+    if (this.state === 'running') return;
+
+    const at = this.now();
+    const last = this.intervals[this.intervals.length - 1];
+    if (last && last.end !== null) {
+      this.addMarker('resumed', at, at - last.end);
+    }
+    this.intervals.push({ start: at, end: null });
+    this.stoppedAt = null;
+    this.state = 'running';
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    const at = this.now();
+    this.closeInterval(at);
+    this.addMarker('paused', at);
+    this.state = 'paused';
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.start();
+  }
+
+  stop(): void {
+    if (this.state !== 'running' && this.state !== 'paused') return;
+    const at = this.now();
+    this.closeInterval(at);
+    this.addMarker('stopped', at);
+    this.stoppedAt = at;
+    this.state = 'stopped';
+  }
+
+  /** Marks the current moment; only meetings in progress can be bookmarked. */
+  bookmark(): MeetingMarker | null {
+    if (this.state !== 'running' && this.state !== 'paused') return null;
+    this.addMarker('bookmark', this.now());
+    return this.markers[this.markers.length - 1];
+  }
+
+  /** Records an already finished stretch of audio, e.g. an imported file. */
+  addRecording(startedAt: Date, durationMs: number): void {
+    if (this.state !== 'idle') return;
+    const start = startedAt.getTime();
+    this.intervals.push({ start, end: start + durationMs });
+    this.stoppedAt = start + durationMs;
+    this.state = 'stopped';
+  }
+
+  snapshot(): MeetingClockSnapshot {
+    const now = this.now();
+    const first = this.intervals[0];
+    const activeMs = this.intervals.reduce((total, interval) => total + (interval.end ?? now) - interval.start, 0);
+
+    return {
+      state: this.state,
+      startedAt: first ? new Date(first.start) : null,
+      activeMs,
+      wallClockMs: first ? (this.stoppedAt ?? now) - first.start : 0,
+      intervals: this.intervals.map(interval => ({
+        startedAt: new Date(interval.start),
+        endedAt: interval.end === null ? null : new Date(interval.end),
+      })),
+      markers: [...this.markers],
+    };
+  }
+
+  private closeInterval(at: number): void {
+    const last = this.intervals[this.intervals.length - 1];
+    if (last && last.end === null) {
+      last.end = at;
+    }
+  }
+
+  private addMarker(kind: MeetingMarkerKind, at: number, gapMs?: number): void {
+    this.markers.push({
+      id: `marker_${at}_${this.markers.length}`,
+      kind,
+      timestamp: new Date(at),
+      ...(gapMs !== undefined ? { gapMs } : {}),
+    });
+  }
+}
@@ -0,0 +1,324 @@
+import type { VoiceData } from '@/services/apiService';
+import { isCommonEnglishWord } from '@/services/language/englishWords';
+import { CustomRedactionPattern, getCustomRedactionPatterns, getRedactionPolicy } from './redactionPolicy';
+
+export type PiiCategory = 'email' | 'phone' | 'aadhaar' | 'pan' | 'bankAccount' | 'custom';
+
+export const PII_CATEGORIES: Record<Exclude<PiiCategory, 'custom'>, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  aadhaar: 'Aadhaar numbers',
+  pan: 'PAN numbers',
+  bankAccount: 'Bank account numbers',
+};
+
+const MASKS: Record<Exclude<PiiCategory, 'custom'>, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  aadhaar: '[AADHAAR]',
+  pan: '[PAN]',
+  bankAccount: '[ACCOUNT]',
+};
+
+export interface Redaction {
+  category: PiiCategory;
+  /** The mask that replaced the match; the matched text itself is not kept */
+  mask: string;
+}
+
+export interface RedactedText {
+  text: string;
+  redactions: Redaction[];
+}
+
+export class RedactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedactionError';
+  }
+}
+
+// Shorter digit runs are amounts, times and years; longer ones that are not
+// a phone or Aadhaar number are treated as account numbers
+const MIN_ACCOUNT_DIGITS = 9;
+
+const NOT_WORD_BEFORE = '(?<![\\p{L}\\p{M}\\p{N}])';
+const NOT_WORD_AFTER = '(?![\\p{L}\\p{M}\\p{N}])';
+
+interface TextPattern {
+  category: Exclude<PiiCategory, 'custom'>;
+  pattern: RegExp;
+  /** Second look at a match, given its capture groups */
+  accept?: (groups: string[]) => boolean;
+}
+
+const TEXT_PATTERNS: TextPattern[] = [
+  { category: 'email', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu },
+  // Dictated addresses come out as "ravi dot kumar at example dot com"
+  {
+    category: 'email',
+    pattern: new RegExp(
+      `${NOT_WORD_BEFORE}([\\p{L}\\p{N}._-]+)((?:\\s+dot\\s+[\\p{L}\\p{N}_-]+)*)\\s+at\\s+[\\p{L}\\p{N}-]+(?:\\s+dot\\s+[\\p{L}]{2,})+${NOT_WORD_AFTER}`,
+      'giu'
+    ),
+    // In "look at this dot com" the word before "at" is plain English; a
+    // mailbox spoken as one word is a name or handle, not a common word
+    accept: ([local, localParts]) => !!localParts || !isCommonEnglishWord(local.toLowerCase()),
+  },
+  { category: 'pan', pattern: new RegExp(`${NOT_WORD_BEFORE}[a-z]{5}[0-9]{4}[a-z]${NOT_WORD_AFTER}`, 'giu') },
+  // Recognizers space out spelled letters and digits; capitals keep ordinary
+  // five-letter words from matching
+  { category: 'pan', pattern: new RegExp(`${NOT_WORD_BEFORE}[A-Z]{5}\\s[0-9]{4}\\s[A-Z]${NOT_WORD_AFTER}`, 'gu') },
+];
+
+// Recognizers spell out dictated numbers, in English or in Tamil
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  'பூஜ்யம்': '0', 'பூஜ்ஜியம்': '0', 'சைபர்': '0', 'ஒன்று': '1', 'ஒன்னு': '1',
+  'இரண்டு': '2', 'ரெண்டு': '2', 'மூன்று': '3', 'மூணு': '3', 'நான்கு': '4', 'நாலு': '4',
+  'ஐந்து': '5', 'அஞ்சு': '5', 'ஆறு': '6', 'ஏழு': '7', 'எட்டு': '8', 'ஒன்பது': '9',
+};
+
+// "double nine" is how numbers are read out in India
+const REPEAT_WORDS: Record<string, number> = { double: 2, triple: 3 };
+
+// Zero code points of the other decimal digit blocks in the language registry
+const DIGIT_ZEROS = [0x0966, 0x0be6, 0x0c66];
+
+const toAsciiDigits = (text: string): string =>
+  text.replace(/[०-९௦-௯౦-౯]/g, (digit) => {
+    const code = digit.charCodeAt(0);
+    const zero = DIGIT_ZEROS.find(start => code >= start && code <= start + 9) ?? code;
+    return String(code - zero);
+  });
+
+const TRAILING_PUNCTUATION = /[.,!?;:)]+$/;
+const DIGIT_TOKEN = /^\(?\+?[0-9]+(?:[-./][0-9]+)*$/;
+// A number never runs on past a comma or full stop: "101, 102, 103"
+const LIST_BREAK = /[.,!?;:]\)*$/;
+
+// How phone, Aadhaar and account numbers are grouped when read or written
+// out, after an optional +91: "98400 12345", "984 001 2345", "044 2345 6789",
+// "2345 6789 0123". Other runs of groups are lists, times and quantities.
+const NUMBER_GROUPING = /^(?:5-5|3-3-4|4-3-3|3-4-4|4(?:-4){2,})$/;
+const COUNTRY_CODE = '91';
+const YEAR = /^(?:19|20)[0-9]{2}$/;
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6], [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4], [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2], [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/** Aadhaar numbers end in a Verhoeff check digit. */
+const isVerhoeffValid = (digits: string): boolean => {
+  let check = 0;
+  Array.from(digits).reverse().forEach((digit, index) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[index % 8][Number(digit)]];
+  });
+  return check === 0;
+};
+
+const classifyNumber = (digits: string): Exclude<PiiCategory, 'custom'> | null => {
+  if (/^[2-9][0-9]{11}$/.test(digits) && isVerhoeffValid(digits)) return 'aadhaar';
+  // Mobiles with or without +91 or a leading 0, and landlines with an STD code
+  if (/^(?:91|0)?[6-9][0-9]{9}$/.test(digits) || /^0[0-9]{9,10}$/.test(digits)) return 'phone';
+  if (digits.length >= MIN_ACCOUNT_DIGITS) return 'bankAccount';
+  return null;
+};
+
+interface NumberWord {
+  start: number;
+  end: number;
+  digits: string;
+  /** Digit groups of a written number, or null for spoken digits */
+  groups: string[] | null;
+  punctuated: boolean;
+}
+
+/** Reads a written digit group ("98400", "044-2345") or a spoken digit. */
+const readNumberWord = (word: string): Pick<NumberWord, 'digits' | 'groups'> | null => {
+  const bare = toAsciiDigits(word).replace(TRAILING_PUNCTUATION, '');
+  if (DIGIT_TOKEN.test(bare)) {
+    const groups = bare.match(/[0-9]+/g) || [];
+    // A lone digit reads like a spoken one: "nine 8 4 ..."
+    if (groups.length === 1 && groups[0].length === 1) return { digits: groups[0], groups: null };
+    return { digits: groups.join(''), groups };
+  }
+  const digit = DIGIT_WORDS[bare.toLowerCase()];
+  return digit ? { digits: digit, groups: null } : null;
+};
+
+/** Number words in the text, with "double nine" read as one word "99". */
+const findNumberWords = (text: string): NumberWord[] => {
+  const tokens = Array.from(text.matchAll(/\S+/g));
+  const numbers: NumberWord[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const start = tokens[i].index!;
+    let token = tokens[i];
+    let value = readNumberWord(token[0]);
+
+    const repeat = REPEAT_WORDS[token[0].toLowerCase()];
+    const repeated = repeat && i + 1 < tokens.length ? readNumberWord(tokens[i + 1][0]) : null;
+    if (repeated && !repeated.groups) {
+      i += 1;
+      token = tokens[i];
+      value = { digits: repeated.digits.repeat(repeat), groups: null };
+    }
+    if (!value) continue;
+
+    numbers.push({
+      ...value,
+      start,
+      end: token.index! + token[0].length,
+      punctuated: LIST_BREAK.test(token[0]),
+    });
+  }
+  return numbers;
+};
+
+/** Whether adjacent number words plausibly make up one number. */
+const isOneNumber = (words: NumberWord[]): boolean => {
+  // Spoken digits are read one after another, so any run of them is one number
+  if (words.every(word => !word.groups)) return true;
+  if (words.some(word => !word.groups)) return false;
+
+  const groups = words.flatMap(word => word.groups!);
+  // "2024 2025 2026" is a list of years, not one number
+  if (groups.every(group => YEAR.test(group))) return false;
+  const rest = groups.length > 1 && groups[0] === COUNTRY_CODE ? groups.slice(1) : groups;
+  return rest.length === 1 || NUMBER_GROUPING.test(rest.map(group => group.length).join('-'));
+};
+
+/**
+ * Masks numbers, including ones spread over several words such as
+ * "98400 12345" or "nine eight four double zero". Neighbouring words only
+ * count as one number when they are grouped the way such numbers are read
+ * out, so "rooms 101 102 103" stays as it is. Matches are replaced where
+ * they stand, leaving the rest of the text untouched.
+ */
+const redactNumbers = (text: string, redactions: Redaction[]): string => {
+  const numbers = findNumberWords(text);
+  let output = '';
+  let copied = 0;
+
+  for (let first = 0; first < numbers.length;) {
+    // The words that follow on directly, up to a comma or full stop
+    let last = first;
+    while (
+      last + 1 < numbers.length &&
+      !numbers[last].punctuated &&
+      !/\S/.test(text.slice(numbers[last].end, numbers[last + 1].start))
+    ) {
+      last += 1;
+    }
+
+    // Longest plausible number first
+    let matched = 0;
+    for (let length = last - first + 1; length > 0 && !matched; length--) {
+      const words = numbers.slice(first, first + length);
+      const category = isOneNumber(words) ? classifyNumber(words.map(word => word.digits).join('')) : null;
+      if (!category) continue;
+
+      const lastWord = text.slice(words[length - 1].start, words[length - 1].end);
+      const punctuation = lastWord.match(TRAILING_PUNCTUATION)?.[0] || '';
+      output += text.slice(copied, words[0].start) + MASKS[category];
+      copied = words[length - 1].end - punctuation.length;
+      redactions.push({ category, mask: MASKS[category] });
+      matched = length;
+    }
+    first += matched || 1;
+  }
+  return output + text.slice(copied);
+};
+
+/** Compiles a custom pattern, rejecting ones that are invalid or would match empty text. */
+export function compileCustomPattern(pattern: string): RegExp {
+  let compiled: RegExp;
+  try {
+    compiled = new RegExp(pattern, 'giu');
+  } catch (error) {
+    throw new RedactionError(`Invalid pattern: ${error instanceof Error ? error.message : error}`);
+  }
+  if (compiled.test('')) {
+    throw new RedactionError('The pattern matches empty text');
+  }
+  compiled.lastIndex = 0;
+  return compiled;
+}
+
+/**
+ * Masks personal data in a transcript line. Emails, PAN numbers and custom
+ * patterns are matched in the text; phone, Aadhaar and account numbers are
+ * recognized from digits in any script or from spoken digit words.
+ */
+export function redactText(
+  text: string,
+  customPatterns: CustomRedactionPattern[] = getCustomRedactionPatterns()
+): RedactedText {
+  const redactions: Redaction[] = [];
+  const mask = (
+    current: string,
+    pattern: RegExp,
+    category: PiiCategory,
+    replacement: string,
+    accept?: TextPattern['accept']
+  ) =>
+    current.replace(pattern, (match: string, ...args: unknown[]) => {
+      // The captures come first, then the offset and the whole text
+      const groups = (args.slice(0, -2) as Array<string | undefined>).map(group => group || '');
+      if (accept && !accept(groups)) return match;
+      redactions.push({ category, mask: replacement });
+      return replacement;
+    });
+
+  let redacted = text;
+  for (const { category, pattern, accept } of TEXT_PATTERNS) {
+    redacted = mask(redacted, pattern, category, MASKS[category], accept);
+  }
+  for (const custom of customPatterns) {
+    try {
+      redacted = mask(redacted, compileCustomPattern(custom.pattern), 'custom', `[${custom.label.toUpperCase()}]`);
+    } catch (error) {
+      console.error(`Skipping redaction pattern "${custom.label}":`, error);
+    }
+  }
+  redacted = redactNumbers(redacted, redactions);
+
+  return redactions.length > 0 ? { text: redacted, redactions } : { text, redactions };
+}
+
+/** Text for the on-screen transcript and exports, which keep personal data only if policy allows. */
+export function redactLocalText(text: string): RedactedText {
+  const policy = getRedactionPolicy();
+  return policy.keepUnredactedCopy ? { text, redactions: [] } : redactText(text, policy.customPatterns);
+}
+
+/**
+ * The copy of an entry that may leave the device. Per-word scores are
+ * dropped when their words held anything that was masked.
+ */
+export function redactVoiceData(
+  data: VoiceData,
+  customPatterns: CustomRedactionPattern[] = getCustomRedactionPatterns()
+): VoiceData {
+  const { words, translation, ...rest } = data;
+  const wordsRedacted = !!words && redactText(words.map(word => word.text).join(' '), customPatterns).redactions.length > 0;
+
+  return {
+    ...rest,
+    text: redactText(data.text, customPatterns).text,
+    ...(translation ? { translation: { ...translation, text: redactText(translation.text, customPatterns).text } } : {}),
+    ...(words && !wordsRedacted ? { words } : {}),
+  };
+}
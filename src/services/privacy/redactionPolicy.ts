@@ -0,0 +1,46 @@
+export interface CustomRedactionPattern {
+  id: string;
+  /** Shown in place of the match, e.g. "EMPLOYEE ID" */
+  label: string;
+  /** Regular expression source, matched case-insensitively */
+  pattern: string;
+}
+
+export interface RedactionPolicy {
+  /** Whether the on-screen transcript and exports may keep the original text */
+  keepUnredactedCopy: boolean;
+  customPatterns: CustomRedactionPattern[];
+}
+
+const CUSTOM_PATTERNS_KEY = 'redactionPatterns';
+
+/**
+ * Uploads are always redacted. Keeping the original text on this device is
+ * an organization decision, so it is set at build time rather than in the UI.
+ */
+export function getRedactionPolicy(): RedactionPolicy {
+  return {
+    keepUnredactedCopy: import.meta.env.VITE_KEEP_UNREDACTED_TRANSCRIPTS === 'true',
+    customPatterns: getCustomRedactionPatterns(),
+  };
+}
+
+export function getCustomRedactionPatterns(): CustomRedactionPattern[] {
+  try {
+    const saved = localStorage.getItem(CUSTOM_PATTERNS_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error('Error loading redaction patterns:', error);
+  }
+  return [];
+}
+
+export function setCustomRedactionPatterns(patterns: CustomRedactionPattern[]): void {
+  try {
+    localStorage.setItem(CUSTOM_PATTERNS_KEY, JSON.stringify(patterns));
+  } catch (error) {
+    console.error('Error saving redaction patterns:', error);
+  }
+}
@@ -0,0 +1,132 @@
+import { TypedEmitter } from '@/lib/emitter';
+import { audioPipeline, AudioTap } from '@/services/audio/audioPipeline';
+import { Utterance, VoiceActivityDetector } from '@/services/audio/voiceActivityDetector';
+import { OnlineDiarizer } from './diarizer';
+import { extractVoiceEmbedding } from './voiceFeatures';
+
+export interface DiarizedSegment {
+  utterance: Utterance;
+  speaker: string;
+  isNew: boolean;
+}
+
+export interface DiarizationEventMap {
+  segment: DiarizedSegment;
+}
+
+interface TimedFrame {
+  samples: Float32Array;
+  sampleRate: number;
+  endTime: number;
+}
+
+const BUFFER_MS = 30000;
+const MIN_SEGMENT_MS = 600;
+const SEGMENT_HISTORY = 50;
+
+/**
+ * Labels VAD utterances with speakers. Microphone PCM is kept in a short
+ * rolling buffer; when the VAD closes an utterance its audio is cut out,
+ * embedded and handed to the online diarizer. Recorded audio skips the
+ * microphone: listen() to a VAD and pushFrame() the PCM alongside it.
+ */
+export class DiarizationService {
+  private emitter = new TypedEmitter<DiarizationEventMap>('diarization');
+  private frames: TimedFrame[] = [];
+  private segments: DiarizedSegment[] = [];
+  private tap: AudioTap | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private generation = 0;
+
+  constructor(readonly diarizer = new OnlineDiarizer()) {}
+
+  on<K extends keyof DiarizationEventMap>(event: K, listener: (payload: DiarizationEventMap[K]) => void): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  async start(vad: VoiceActivityDetector): Promise<void> {
+    // listen() stops any previous run, so take the generation afterwards
+    this.listen(vad);
+    const generation = this.generation;
+
+    const tap = await audioPipeline.createPcmTap((samples, sampleRate) => {
+      this.pushFrame(samples, sampleRate, Date.now());
+    });
+
+    if (generation !== this.generation) {
+      tap.disconnect();
+      return;
+    }
+    this.tap = tap;
+  }
+
+  /** Labels the VAD's utterances using frames supplied through pushFrame(). */
+  listen(vad: VoiceActivityDetector): void {
+    this.stop();
+    this.unsubscribe = vad.on('speechend', (utterance) => this.handleUtterance(utterance));
+  }
+
+  /**
+   * Buffers PCM ending at `endTime` (epoch ms). Frames must arrive before the
+   * VAD closes the utterance they belong to.
+   */
+  pushFrame(samples: Float32Array, sampleRate: number, endTime: number): void {
+    this.frames.push({ samples, sampleRate, endTime });
+    const cutoff = endTime - BUFFER_MS;
+    while (this.frames.length > 0 && this.frames[0].endTime < cutoff) {
+      this.frames.shift();
+    }
+  }
+
+  stop(): void {
+    this.generation += 1;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.tap?.disconnect();
+    this.tap = null;
+    this.frames = [];
+  }
+
+  /** The speaker label the diarizer gave to an utterance, if any. */
+  speakerFor(utterance: Utterance | null): string | null {
+    if (!utterance) return null;
+    const segment = this.segments.find(
+      candidate => candidate.utterance.startedAt.getTime() === utterance.startedAt.getTime()
+    );
+    return segment?.speaker || null;
+  }
+
+  private handleUtterance(utterance: Utterance): void {
+    if (utterance.durationMs < MIN_SEGMENT_MS) return;
+
+    const audio = this.sliceAudio(utterance.startedAt.getTime(), utterance.endedAt.getTime());
+    if (!audio) return;
+
+    const embedding = extractVoiceEmbedding(audio.samples, audio.sampleRate);
+    if (!embedding) return;
+
+    const { cluster, isNew } = this.diarizer.assign(embedding, utterance.startedAt);
+    const segment = { utterance, speaker: cluster.label, isNew };
+    this.segments.push(segment);
+    if (this.segments.length > SEGMENT_HISTORY) {
+      this.segments.shift();
+    }
+    this.emitter.emit('segment', segment);
+  }
+
+  private sliceAudio(start: number, end: number): { samples: Float32Array; sampleRate: number } | null {
+    const frames = this.frames.filter(frame => {
+      const frameStart = frame.endTime - (frame.samples.length / frame.sampleRate) * 1000;
+      return frame.endTime >= start && frameStart <= end;
+    });
+    if (frames.length === 0) return null;
+
+    const samples = new Float32Array(frames.reduce((total, frame) => total + frame.samples.length, 0));
+    let offset = 0;
+    frames.forEach(frame => {
+      samples.set(frame.samples, offset);
+      offset += frame.samples.length;
+    });
+    return { samples, sampleRate: frames[0].sampleRate };
+  }
+}
@@ -0,0 +1,193 @@
+import { EMBEDDING_SIZE } from './voiceFeatures';
+
+export interface SpeakerCluster {
+  label: string;
+  /** Set when the cluster belongs to an enrolled voice profile */
+  profileId?: string;
+  centroid: Float32Array;
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface DiarizerOptions {
+  maxSpeakers: number;
+  /** Normalised distance below which a segment joins an existing speaker */
+  distanceThreshold: number;
+  /** Stricter distance required before naming a segment after an enrolled profile */
+  knownSpeakerThreshold: number;
+}
+
+export interface KnownSpeaker {
+  id: string;
+  label: string;
+  embedding: Float32Array;
+}
+
+export interface SpeakerAssignment {
+  cluster: SpeakerCluster;
+  distance: number;
+  isNew: boolean;
+}
+
+export const DEFAULT_DIARIZER_OPTIONS: DiarizerOptions = {
+  maxSpeakers: 20,
+  distanceThreshold: 1.0,
+  knownSpeakerThreshold: 0.8,
+};
+
+// Typical spread of each embedding dimension across speakers, used until
+// the meeting has produced enough segments to estimate it.
+const PRIOR_SCALE = Float32Array.from({ length: EMBEDDING_SIZE }, (_, i) => {
+  if (i === EMBEDDING_SIZE - 1) return 0.5; // log2 pitch
+  return i < (EMBEDDING_SIZE - 1) / 2 ? 6 : 3; // MFCC means, then MFCC deviations
+});
+const PRIOR_WEIGHT = 5;
+const MAX_CENTROID_WEIGHT = 20;
+
+/**
+ * Online clustering of voice embeddings into "Speaker N" labels. Each segment
+ * joins the nearest known speaker when it is close enough, otherwise it opens
+ * a new speaker, so people joining mid-meeting get their own label.
+ */
+export class OnlineDiarizer {
+  private options: DiarizerOptions;
+  private clusters: SpeakerCluster[] = [];
+  private knownSpeakers: KnownSpeaker[] = [];
+  private anonymousCount = 0;
+  private seen = 0;
+  private mean = new Float64Array(EMBEDDING_SIZE);
+  private m2 = new Float64Array(EMBEDDING_SIZE);
+
+  constructor(options: Partial<DiarizerOptions> = {}) {
+    this.options = { ...DEFAULT_DIARIZER_OPTIONS, ...options };
+  }
+
+  getSpeakers(): SpeakerCluster[] {
+    return [...this.clusters];
+  }
+
+  /** Enrolled voices that segments are matched against before anonymous clusters. */
+  setKnownSpeakers(speakers: KnownSpeaker[]): void {
+    this.knownSpeakers = speakers;
+  }
+
+  assign(embedding: Float32Array, at: Date = new Date()): SpeakerAssignment {
+    this.observe(embedding);
+
+    const known = this.matchKnownSpeaker(embedding);
+    if (known) {
+      return this.assignKnown(known.speaker, known.distance, embedding, at);
+    }
+
+    const nearest = this.findNearest(embedding);
+    if (nearest && nearest.distance <= this.options.distanceThreshold) {
+      this.updateCentroid(nearest.cluster, embedding, at);
+      return { ...nearest, isNew: false };
+    }
+
+    // At the cap the voice joins the closest speaker, an enrolled one only
+    // when every cluster belongs to an enrolled speaker
+    if (this.clusters.length >= this.options.maxSpeakers) {
+      const closest = nearest || this.findNearest(embedding, true);
+      if (closest) {
+        this.updateCentroid(closest.cluster, embedding, at);
+        return { ...closest, isNew: false };
+      }
+    }
+
+    this.anonymousCount += 1;
+    const cluster: SpeakerCluster = {
+      label: `Speaker ${this.anonymousCount}`,
+      centroid: Float32Array.from(embedding),
+      count: 1,
+      firstSeen: at,
+      lastSeen: at,
+    };
+    this.clusters.push(cluster);
+    return { cluster, distance: nearest?.distance ?? 0, isNew: true };
+  }
+
+  /** Root-mean-square distance with each dimension scaled by its spread. */
+  distance(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < EMBEDDING_SIZE; i++) {
+      const diff = (a[i] - b[i]) / this.scale(i);
+      sum += diff * diff;
+    }
+    return Math.sqrt(sum / EMBEDDING_SIZE);
+  }
+
+  private matchKnownSpeaker(embedding: Float32Array): { speaker: KnownSpeaker; distance: number } | null {
+    let best: { speaker: KnownSpeaker; distance: number } | null = null;
+    for (const speaker of this.knownSpeakers) {
+      const distance = this.distance(embedding, speaker.embedding);
+      if (distance <= this.options.knownSpeakerThreshold && (!best || distance < best.distance)) {
+        best = { speaker, distance };
+      }
+    }
+    return best;
+  }
+
+  private assignKnown(speaker: KnownSpeaker, distance: number, embedding: Float32Array, at: Date): SpeakerAssignment {
+    const existing = this.clusters.find(cluster => cluster.profileId === speaker.id);
+    if (existing) {
+      this.updateCentroid(existing, embedding, at);
+      return { cluster: existing, distance, isNew: false };
+    }
+
+    const cluster: SpeakerCluster = {
+      label: speaker.label,
+      profileId: speaker.id,
+      centroid: Float32Array.from(speaker.embedding),
+      count: 1,
+      firstSeen: at,
+      lastSeen: at,
+    };
+    this.clusters.push(cluster);
+    return { cluster, distance, isNew: true };
+  }
+
+  private findNearest(
+    embedding: Float32Array,
+    includeEnrolled = false
+  ): { cluster: SpeakerCluster; distance: number } | null {
+    let best: { cluster: SpeakerCluster; distance: number } | null = null;
+    // Enrolled speakers are otherwise only matched through matchKnownSpeaker,
+    // so an unknown voice does not inherit an employee's name
+    for (const cluster of this.clusters) {
+      if (cluster.profileId && !includeEnrolled) continue;
+      const distance = this.distance(embedding, cluster.centroid);
+      if (!best || distance < best.distance) {
+        best = { cluster, distance };
+      }
+    }
+    return best;
+  }
+
+  private updateCentroid(cluster: SpeakerCluster, embedding: Float32Array, at: Date): void {
+    cluster.count += 1;
+    // Cap the weight so a speaker's centroid can follow them as their voice
+    // warms up or the room changes
+    const weight = 1 / Math.min(cluster.count, MAX_CENTROID_WEIGHT);
+    for (let i = 0; i < EMBEDDING_SIZE; i++) {
+      cluster.centroid[i] += (embedding[i] - cluster.centroid[i]) * weight;
+    }
+    cluster.lastSeen = at;
+  }
+
+  // Welford's running variance over every segment in the meeting
+  private observe(embedding: Float32Array): void {
+    this.seen += 1;
+    for (let i = 0; i < EMBEDDING_SIZE; i++) {
+      const delta = embedding[i] - this.mean[i];
+      this.mean[i] += delta / this.seen;
+      this.m2[i] += delta * (embedding[i] - this.mean[i]);
+    }
+  }
+
+  private scale(i: number): number {
+    const prior = PRIOR_SCALE[i] * PRIOR_SCALE[i] * PRIOR_WEIGHT;
+    return Math.sqrt((this.m2[i] + prior) / (this.seen + PRIOR_WEIGHT));
+  }
+}
@@ -0,0 +1,64 @@
+import { audioPipeline } from '@/services/audio/audioPipeline';
+import { extractVoiceEmbedding } from './voiceFeatures';
+
+export const ENROLLMENT_SAMPLE_MS = 8000;
+
+export class EnrollmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnrollmentError';
+  }
+}
+
+/**
+ * Records a short voice sample from the shared audio pipeline and turns it
+ * into a voice embedding. Opens the microphone itself when no meeting is
+ * recording and releases it again afterwards.
+ */
+export async function recordVoiceSample(
+  onProgress?: (fraction: number) => void,
+  durationMs = ENROLLMENT_SAMPLE_MS
+): Promise<Float32Array> {
+  const ownsPipeline = !audioPipeline.isActive;
+  await audioPipeline.start();
+
+  const chunks: Float32Array[] = [];
+  let sampleRate = audioPipeline.sampleRate;
+  const startedAt = Date.now();
+
+  try {
+    const tap = await audioPipeline.createPcmTap((frame, rate) => {
+      chunks.push(frame);
+      sampleRate = rate;
+    });
+
+    await new Promise<void>(resolve => {
+      const timer = setInterval(() => {
+        const fraction = Math.min(1, (Date.now() - startedAt) / durationMs);
+        onProgress?.(fraction);
+        if (fraction >= 1) {
+          clearInterval(timer);
+          resolve();
+        }
+      }, 100);
+    });
+    tap.disconnect();
+  } finally {
+    if (ownsPipeline) {
+      audioPipeline.stop();
+    }
+  }
+
+  const samples = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  const embedding = extractVoiceEmbedding(samples, sampleRate);
+  if (!embedding) {
+    throw new EnrollmentError('Not enough speech was captured. Please speak continuously during the sample.');
+  }
+  return embedding;
+}
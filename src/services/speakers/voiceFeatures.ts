@@ -0,0 +1,172 @@
+import { fft } from '@/lib/fft';
+
+const TARGET_SAMPLE_RATE = 16000;
+const FRAME_SIZE = 400; // 25 ms at 16 kHz
+const HOP_SIZE = 160; // 10 ms at 16 kHz
+const FFT_SIZE = 512;
+const MEL_FILTERS = 26;
+const MFCC_COUNT = 13;
+const PRE_EMPHASIS = 0.97;
+const MIN_PITCH_HZ = 60;
+const MAX_PITCH_HZ = 400;
+const VOICING_THRESHOLD = 0.3;
+// Frames more than 20 dB below the loudest frame are treated as silence
+const SILENCE_RATIO = 0.01;
+
+/** Length of the embedding returned by extractVoiceEmbedding */
+export const EMBEDDING_SIZE = (MFCC_COUNT - 1) * 2 + 1;
+
+/** Averages blocks of samples down to roughly 16 kHz. */
+export function resample(samples: Float32Array, sampleRate: number): Float32Array {
+  const factor = Math.max(1, Math.round(sampleRate / TARGET_SAMPLE_RATE));
+  if (factor === 1) return samples;
+
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += samples[i * factor + j];
+    }
+    output[i] = sum / factor;
+  }
+  return output;
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+let melFilterbank: Float32Array[] | null = null;
+
+function getMelFilterbank(): Float32Array[] {
+  if (melFilterbank) return melFilterbank;
+
+  const bins = FFT_SIZE / 2 + 1;
+  const maxMel = hzToMel(TARGET_SAMPLE_RATE / 2);
+  const points = Array.from({ length: MEL_FILTERS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * melToHz((maxMel * i) / (MEL_FILTERS + 1))) / TARGET_SAMPLE_RATE)
+  );
+
+  melFilterbank = Array.from({ length: MEL_FILTERS }, (_, m) => {
+    const filter = new Float32Array(bins);
+    const [left, center, right] = [points[m], points[m + 1], points[m + 2]];
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(1, center - left);
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(1, right - center);
+    return filter;
+  });
+  return melFilterbank;
+}
+
+const hamming = Float32Array.from({ length: FRAME_SIZE }, (_, i) =>
+  0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1))
+);
+
+function frameMfcc(frame: Float32Array): Float32Array {
+  const real = new Float32Array(FFT_SIZE);
+  const imag = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    const emphasized = frame[i] - (i > 0 ? PRE_EMPHASIS * frame[i - 1] : 0);
+    real[i] = emphasized * hamming[i];
+  }
+  fft(real, imag);
+
+  const filterbank = getMelFilterbank();
+  const logEnergies = new Float32Array(MEL_FILTERS);
+  for (let m = 0; m < MEL_FILTERS; m++) {
+    let energy = 0;
+    const filter = filterbank[m];
+    for (let k = 0; k < filter.length; k++) {
+      if (filter[k] === 0) continue;
+      energy += filter[k] * (real[k] * real[k] + imag[k] * imag[k]);
+    }
+    logEnergies[m] = Math.log(energy + 1e-10);
+  }
+
+  // DCT-II of the log mel energies
+  const mfcc = new Float32Array(MFCC_COUNT);
+  for (let c = 0; c < MFCC_COUNT; c++) {
+    let sum = 0;
+    for (let m = 0; m < MEL_FILTERS; m++) {
+      sum += logEnergies[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTERS);
+    }
+    mfcc[c] = sum;
+  }
+  return mfcc;
+}
+
+function framePitch(frame: Float32Array): number | null {
+  const minLag = Math.floor(TARGET_SAMPLE_RATE / MAX_PITCH_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(TARGET_SAMPLE_RATE / MIN_PITCH_HZ));
+
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (energy === 0) return null;
+
+  let bestLag = 0;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < frame.length; i++) sum += frame[i] * frame[i + lag];
+    const correlation = sum / energy;
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestLag = lag;
+    }
+  }
+
+  return bestCorrelation >= VOICING_THRESHOLD && bestLag > 0 ? TARGET_SAMPLE_RATE / bestLag : null;
+}
+
+/**
+ * Summarises a speech segment as a fixed-size voice embedding: the mean and
+ * standard deviation of MFCCs 1-12 (c0 only tracks loudness) plus the median
+ * log pitch. Silent frames are skipped so pauses inside a sample do not skew
+ * it. Returns null when there is too little speech to characterise.
+ */
+export function extractVoiceEmbedding(samples: Float32Array, sampleRate: number): Float32Array | null {
+  const audio = resample(samples, sampleRate);
+  const totalFrames = Math.floor((audio.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  if (totalFrames < 10) return null;
+
+  const energies = new Float32Array(totalFrames);
+  let maxEnergy = 0;
+  for (let f = 0; f < totalFrames; f++) {
+    const frame = audio.subarray(f * HOP_SIZE, f * HOP_SIZE + FRAME_SIZE);
+    for (let i = 0; i < frame.length; i++) energies[f] += frame[i] * frame[i];
+    maxEnergy = Math.max(maxEnergy, energies[f]);
+  }
+
+  const voicedFrames: number[] = [];
+  for (let f = 0; f < totalFrames; f++) {
+    if (maxEnergy > 0 && energies[f] >= maxEnergy * SILENCE_RATIO) voicedFrames.push(f);
+  }
+  const frameCount = voicedFrames.length;
+  if (frameCount < 10) return null;
+
+  const sums = new Float64Array(MFCC_COUNT);
+  const squares = new Float64Array(MFCC_COUNT);
+  const pitches: number[] = [];
+
+  for (const f of voicedFrames) {
+    const frame = audio.subarray(f * HOP_SIZE, f * HOP_SIZE + FRAME_SIZE);
+    const mfcc = frameMfcc(frame);
+    for (let c = 0; c < MFCC_COUNT; c++) {
+      sums[c] += mfcc[c];
+      squares[c] += mfcc[c] * mfcc[c];
+    }
+    const pitch = framePitch(frame);
+    if (pitch !== null) pitches.push(pitch);
+  }
+
+  const embedding = new Float32Array(EMBEDDING_SIZE);
+  for (let c = 1; c < MFCC_COUNT; c++) {
+    const mean = sums[c] / frameCount;
+    embedding[c - 1] = mean;
+    embedding[MFCC_COUNT - 1 + c - 1] = Math.sqrt(Math.max(0, squares[c] / frameCount - mean * mean));
+  }
+
+  pitches.sort((a, b) => a - b);
+  const medianPitch = pitches.length > 0 ? pitches[Math.floor(pitches.length / 2)] : 0;
+  embedding[EMBEDDING_SIZE - 1] = medianPitch > 0 ? Math.log2(medianPitch / 100) : 0;
+
+  return embedding;
+}
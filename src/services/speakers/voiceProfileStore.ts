@@ -0,0 +1,28 @@
+import { STORES, deleteRecord, getAllRecords, putRecord } from '@/lib/indexedDb';
+
+export interface VoiceProfile {
+  employeeId: string;
+  name: string;
+  preferredLanguage: string;
+  embedding: Float32Array;
+  enrolledAt: Date;
+  updatedAt: Date;
+}
+
+/** Enrolled employee voices, kept on this machine only. */
+class VoiceProfileStore {
+  async list(): Promise<VoiceProfile[]> {
+    const profiles = await getAllRecords<VoiceProfile>(STORES.voiceProfiles);
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async save(profile: VoiceProfile): Promise<void> {
+    await putRecord(STORES.voiceProfiles, { ...profile, updatedAt: new Date() });
+  }
+
+  async delete(employeeId: string): Promise<void> {
+    await deleteRecord(STORES.voiceProfiles, employeeId);
+  }
+}
+
+export const voiceProfileStore = new VoiceProfileStore();
@@ -0,0 +1,49 @@
+import { TypedEmitter } from '@/lib/emitter';
+import {
+  TranscriptionEngine,
+  TranscriptionEngineEventMap,
+  TranscriptionEngineListener,
+  TranscriptionEngineOptions,
+  TranscriptionEngineState,
+} from './types';
+
+/**
+ * Shared event and state plumbing for engines. Subclasses only implement
+ * the lifecycle hooks and call `emit` when they have results.
+ */
+export abstract class BaseTranscriptionEngine implements TranscriptionEngine {
+  abstract readonly id: string;
+
+  private currentState: TranscriptionEngineState = 'idle';
+  private emitter = new TypedEmitter<TranscriptionEngineEventMap>('transcription engine');
+
+  get state(): TranscriptionEngineState {
+    return this.currentState;
+  }
+
+  abstract isSupported(): boolean;
+  abstract start(options?: TranscriptionEngineOptions): Promise<void>;
+  abstract stop(): void;
+  abstract pause(): void;
+  abstract resume(): void;
+
+  on<K extends keyof TranscriptionEngineEventMap>(
+    event: K,
+    listener: TranscriptionEngineListener<K>
+  ): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  protected emit<K extends keyof TranscriptionEngineEventMap>(
+    event: K,
+    payload: TranscriptionEngineEventMap[K]
+  ): void {
+    this.emitter.emit(event, payload);
+  }
+
+  protected setState(state: TranscriptionEngineState): void {
+    if (this.currentState === state) return;
+    this.currentState = state;
+    this.emit('statechange', state);
+  }
+}
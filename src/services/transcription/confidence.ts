@@ -0,0 +1,37 @@
+import { TranscriptionSegment, TranscriptionWord } from './types';
+
+/** Words and entries scored below this are flagged for review */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** The scores an entry keeps from the engine's final */
+export type SegmentConfidence = Pick<TranscriptionSegment, 'confidence' | 'words'>;
+
+export interface ConfidenceStats {
+  /** Mean confidence of the scored entries, or null when none were scored */
+  average: number | null;
+  scoredEntries: number;
+  uncertainEntries: number;
+}
+
+export const isLowConfidenceWord = (word: TranscriptionWord): boolean =>
+  word.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+/**
+ * Whether a reviewer should check the entry: the engine doubted it as a
+ * whole or doubted any of its words. Unscored entries are never flagged.
+ */
+export function needsReview(entry: SegmentConfidence): boolean {
+  return (entry.confidence !== undefined && entry.confidence < LOW_CONFIDENCE_THRESHOLD)
+    || !!entry.words?.some(isLowConfidenceWord);
+}
+
+export function getConfidenceStats(entries: SegmentConfidence[]): ConfidenceStats {
+  const scored = entries.filter(entry => entry.confidence !== undefined);
+  return {
+    average: scored.length > 0
+      ? scored.reduce((total, entry) => total + (entry.confidence ?? 0), 0) / scored.length
+      : null,
+    scoredEntries: scored.length,
+    uncertainEntries: entries.filter(needsReview).length,
+  };
+}
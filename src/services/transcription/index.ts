@@ -0,0 +1,58 @@
+import { transcriptionEngineRegistry } from './registry';
+import { OfflineTranscriptionEngine, OFFLINE_LANGUAGES } from './offlineEngine';
+import { ScenarioTranscriptionEngine } from './scenarioEngine';
+import { loadActiveScenario } from './scenario';
+import { WebSpeechTranscriptionEngine, WEB_SPEECH_LANGUAGES } from './webSpeechEngine';
+
+transcriptionEngineRegistry.register(
+  {
+    id: 'scenario',
+    label: 'Demo (scripted)',
+    description: 'Plays back a scripted multilingual meeting for demos and QA',
+    isSupported: () => true,
+    create: () => new ScenarioTranscriptionEngine(loadActiveScenario()),
+  },
+  { isDefault: true }
+);
+
+transcriptionEngineRegistry.register({
+  id: 'web-speech',
+  label: 'Browser speech recognition',
+  description: 'Web Speech API (requires browser support)',
+  languages: WEB_SPEECH_LANGUAGES,
+  acceptsHints: true,
+  ownsMicrophone: true,
+  isSupported: () => new WebSpeechTranscriptionEngine().isSupported(),
+  create: () => new WebSpeechTranscriptionEngine(),
+});
+
+transcriptionEngineRegistry.register({
+  id: 'offline',
+  label: 'On-device (offline)',
+  description: 'Vosk WASM models running in a Web Worker, no network needed',
+  languages: OFFLINE_LANGUAGES,
+  acceptsRecordings: true,
+  isSupported: () => new OfflineTranscriptionEngine().isSupported(),
+  create: () => new OfflineTranscriptionEngine(),
+});
+
+export { transcriptionEngineRegistry };
+export * from './types';
+export {
+  parseScenario,
+  loadActiveScenario,
+  saveActiveScenario,
+  clearActiveScenario,
+  ScenarioParseError,
+  ManualClock,
+  createRealClock,
+} from './scenario';
+export type { Scenario, ScenarioLine, ScenarioClock } from './scenario';
+export { ScenarioTranscriptionEngine } from './scenarioEngine';
+export {
+  LOW_CONFIDENCE_THRESHOLD,
+  isLowConfidenceWord,
+  needsReview,
+  getConfidenceStats,
+} from './confidence';
+export type { SegmentConfidence, ConfidenceStats } from './confidence';
@@ -0,0 +1,319 @@
+import type { KaldiRecognizer, Model } from 'vosk-browser';
+import { audioPipeline, AudioTap } from '@/services/audio/audioPipeline';
+import { languageRegistry } from '@/services/language/languageRegistry';
+import { BaseTranscriptionEngine } from './baseEngine';
+import {
+  RecordedAudio,
+  RecordingTranscriptionOptions,
+  TranscriptionEngineOptions,
+} from './types';
+
+// Models are served from the app's own origin so nothing leaves the machine.
+// Drop the Vosk model archives into public/models or point these at a local
+// server with the VITE_OFFLINE_MODEL_* variables.
+const MODEL_URLS: Record<string, string> = {
+  'ta-IN': import.meta.env.VITE_OFFLINE_MODEL_TA_IN || '/models/vosk-model-small-ta.tar.gz',
+  'en-IN': import.meta.env.VITE_OFFLINE_MODEL_EN_IN || '/models/vosk-model-small-en-in-0.4.tar.gz',
+  'hi-IN': import.meta.env.VITE_OFFLINE_MODEL_HI_IN || '/models/vosk-model-small-hi-0.22.tar.gz',
+  'te-IN': import.meta.env.VITE_OFFLINE_MODEL_TE_IN || '/models/vosk-model-small-te-0.42.tar.gz',
+};
+
+// Vosk has no Malayalam or Kannada models, so those stay online-only
+export const OFFLINE_LANGUAGES = languageRegistry.getLocaleNames(Object.keys(MODEL_URLS));
+
+const RECORDING_CHUNK_SIZE = 4096;
+// Recordings are posted to the worker only this far ahead of what it has
+// processed, so a long file is never queued up in memory all at once
+const MAX_PENDING_CHUNKS = 8;
+const RECORDING_STALL_MS = 30000;
+
+type PartialResultMessage = {
+  event: 'partialresult';
+  result: { partial: string };
+};
+
+type ResultMessage = {
+  event: 'result';
+  result: {
+    text: string;
+    result?: Array<{ conf: number; start: number; end: number; word: string }>;
+  };
+};
+
+// Loaded models live for the whole session; each one owns a worker running
+// the WASM recognizer, so switching languages back and forth stays cheap.
+const modelCache = new Map<string, Promise<Model>>();
+
+const loadModel = (language: string): Promise<Model> => {
+  let model = modelCache.get(language);
+  if (!model) {
+    model = import('vosk-browser').then(({ createModel }) => createModel(MODEL_URLS[language]));
+    model.catch(() => modelCache.delete(language));
+    modelCache.set(language, model);
+  }
+  return model;
+};
+
+interface ClockAnchor {
+  audioSeconds: number;
+  wallTime: number;
+}
+
+export class OfflineTranscriptionEngine extends BaseTranscriptionEngine {
+  readonly id = 'offline';
+
+  private language = 'en-IN';
+  private recognizer: KaldiRecognizer | null = null;
+  private tap: AudioTap | null = null;
+  private receivedSeconds = 0;
+  private anchors: ClockAnchor[] = [];
+  private partialStartedAt: Date | null = null;
+  private recordingWaiter: (() => void) | null = null;
+
+  isSupported(): boolean {
+    return typeof Worker !== 'undefined'
+      && typeof WebAssembly !== 'undefined'
+      && typeof AudioWorkletNode !== 'undefined';
+  }
+
+  async start(options: TranscriptionEngineOptions = {}): Promise<void> {
+    if (options.language && OFFLINE_LANGUAGES[options.language]) {
+      this.language = options.language;
+    }
+    this.setState('running');
+
+    let model: Model;
+    try {
+      model = await loadModel(this.language);
+    } catch (error) {
+      console.error('Error loading offline speech model:', error);
+      this.fail('model-load', `Offline speech model for ${OFFLINE_LANGUAGES[this.language]} could not be loaded`);
+      return;
+    }
+    // Stopped while the model was loading; starting the pipeline now would
+    // reopen the microphone the recorder just released
+    if (this.isStopped()) return;
+
+    try {
+      await audioPipeline.start();
+      if (this.isStopped()) return;
+
+      const recognizer = new model.KaldiRecognizer(audioPipeline.sampleRate);
+      recognizer.setWords(true);
+      // Replies can still be in flight from the worker after a stop; the
+      // recorder has moved on by then, so they are dropped
+      recognizer.on('result', (message) => {
+        if (this.recognizer === recognizer) this.handleResult(message as ResultMessage);
+      });
+      recognizer.on('partialresult', (message) => {
+        if (this.recognizer === recognizer) this.handlePartial(message as PartialResultMessage);
+      });
+      recognizer.on('error', (message) => {
+        if (message.event !== 'error') return;
+        this.emit('error', { code: 'recognizer', message: message.error, recoverable: true });
+      });
+
+      this.recognizer = recognizer;
+      this.receivedSeconds = 0;
+      this.anchors = [{ audioSeconds: 0, wallTime: Date.now() }];
+      this.partialStartedAt = null;
+      this.tap = await audioPipeline.createPcmTap((frame, sampleRate) => {
+        if (this.state !== 'running' || this.recognizer !== recognizer) return;
+        recognizer.acceptWaveformFloat(frame, sampleRate);
+        this.receivedSeconds += frame.length / sampleRate;
+      });
+
+      // The engine may have been stopped while the tap was being added
+      if (this.isStopped()) {
+        this.teardown();
+      }
+    } catch (error) {
+      console.error('Error starting offline recognition:', error);
+      this.fail('audio-capture', 'Microphone audio is not available for offline recognition');
+    }
+  }
+
+  async transcribeRecording(audio: RecordedAudio, options: RecordingTranscriptionOptions = {}): Promise<void> {
+    if (options.language && OFFLINE_LANGUAGES[options.language]) {
+      this.language = options.language;
+    }
+    this.setState('running');
+
+    let model: Model;
+    try {
+      model = await loadModel(this.language);
+    } catch (error) {
+      console.error('Error loading offline speech model:', error);
+      this.setState('error');
+      throw new Error(`Offline speech model for ${OFFLINE_LANGUAGES[this.language]} could not be loaded`);
+    }
+    if (this.state !== 'running') return;
+
+    // The worker answers every chunk with a result or a partial, and the
+    // final flush with one last result, so each reply acknowledges a message.
+    // Partials are not shown for recordings; they would only flicker past.
+    let pending = 0;
+    const acknowledge = () => {
+      pending -= 1;
+      this.recordingWaiter?.();
+    };
+
+    const recognizer = new model.KaldiRecognizer(audio.sampleRate);
+    recognizer.setWords(true);
+    recognizer.on('result', (message) => {
+      if (this.recognizer === recognizer) this.handleResult(message as ResultMessage);
+      acknowledge();
+    });
+    recognizer.on('partialresult', acknowledge);
+    recognizer.on('error', (message) => {
+      if (message.event === 'error') {
+        this.emit('error', { code: 'recognizer', message: message.error, recoverable: true });
+      }
+      acknowledge();
+    });
+
+    this.recognizer = recognizer;
+    this.receivedSeconds = 0;
+    this.anchors = [{ audioSeconds: 0, wallTime: audio.startedAt.getTime() }];
+
+    try {
+      const { samples, sampleRate } = audio;
+      for (let offset = 0; offset < samples.length; offset += RECORDING_CHUNK_SIZE) {
+        await this.waitForRecognizer(recognizer, () => pending < MAX_PENDING_CHUNKS);
+        if (this.recognizer !== recognizer) return;
+
+        const chunk = samples.subarray(offset, offset + RECORDING_CHUNK_SIZE);
+        recognizer.acceptWaveformFloat(chunk, sampleRate);
+        pending += 1;
+        this.receivedSeconds += chunk.length / sampleRate;
+        options.onProgress?.((offset + chunk.length) / samples.length);
+      }
+
+      recognizer.retrieveFinalResult();
+      pending += 1;
+      await this.waitForRecognizer(recognizer, () => pending === 0);
+    } catch (error) {
+      this.teardown();
+      this.setState('error');
+      throw error;
+    }
+
+    if (this.recognizer !== recognizer) return;
+    recognizer.remove();
+    this.recognizer = null;
+    this.setState('idle');
+  }
+
+  stop(): void {
+    this.teardown();
+    this.setState('idle');
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    // Close the utterance in progress so it is not joined to whatever is
+    // said after resuming
+    this.recognizer?.retrieveFinalResult();
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    // Audio received after a pause belongs to a later point in wall time
+    this.anchors.push({ audioSeconds: this.receivedSeconds, wallTime: Date.now() });
+    this.setState('running');
+  }
+
+  setLanguage(language: string): void {
+    if (!OFFLINE_LANGUAGES[language] || language === this.language) return;
+    this.language = language;
+    if (this.state === 'running') {
+      this.teardown();
+      this.start({ language });
+    }
+  }
+
+  private handlePartial(message: PartialResultMessage): void {
+    const text = message.result.partial?.trim();
+    if (!text) return;
+
+    // Vosk partials carry no word timings, so date the hypothesis from when
+    // it first appeared
+    this.partialStartedAt = this.partialStartedAt || new Date(this.toWallTime(this.receivedSeconds));
+    this.emit('interim', {
+      text,
+      language: OFFLINE_LANGUAGES[this.language],
+      timestamp: this.partialStartedAt,
+    });
+  }
+
+  private handleResult(message: ResultMessage): void {
+    this.partialStartedAt = null;
+    const text = message.result.text?.trim();
+    if (!text) return;
+
+    const words = message.result.result || [];
+    const start = words.length > 0 ? words[0].start : this.receivedSeconds;
+    const end = words.length > 0 ? words[words.length - 1].end : this.receivedSeconds;
+
+    this.emit('final', {
+      text,
+      language: OFFLINE_LANGUAGES[this.language],
+      timestamp: new Date(this.toWallTime(start)),
+      durationMs: Math.round((end - start) * 1000),
+      ...(words.length > 0 ? {
+        confidence: words.reduce((total, word) => total + word.conf, 0) / words.length,
+        words: words.map(word => ({ text: word.word, confidence: word.conf })),
+      } : {}),
+    });
+  }
+
+  private toWallTime(audioSeconds: number): number {
+    let anchor = this.anchors[0];
+    for (const candidate of this.anchors) {
+      if (candidate.audioSeconds > audioSeconds) break;
+      anchor = candidate;
+    }
+    return anchor.wallTime + (audioSeconds - anchor.audioSeconds) * 1000;
+  }
+
+  /** Resolves once `ready` holds or the recognizer has been torn down. */
+  private waitForRecognizer(recognizer: KaldiRecognizer, ready: () => boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.recordingWaiter = null;
+        reject(new Error('The offline recognizer stopped responding'));
+      }, RECORDING_STALL_MS);
+
+      const check = () => {
+        if (this.recognizer !== recognizer || ready()) {
+          clearTimeout(timer);
+          this.recordingWaiter = null;
+          resolve();
+        }
+      };
+      this.recordingWaiter = check;
+      check();
+    });
+  }
+
+  private fail(code: string, message: string): void {
+    this.teardown();
+    this.setState('error');
+    this.emit('error', { code, message, recoverable: false });
+  }
+
+  /** Stopped or failed, as opposed to running or paused. */
+  private isStopped(): boolean {
+    return this.state === 'idle' || this.state === 'error';
+  }
+
+  private teardown(): void {
+    this.recognizer?.remove();
+    this.recognizer = null;
+
+    this.tap?.disconnect();
+    this.tap = null;
+    this.recordingWaiter?.();
+  }
+}
@@ -0,0 +1,59 @@
+import { TranscriptionEngine, TranscriptionEngineDescriptor } from './types';
+
+const SELECTED_ENGINE_KEY = 'transcriptionEngine';
+
+class TranscriptionEngineRegistry {
+  private descriptors = new Map<string, TranscriptionEngineDescriptor>();
+  private defaultId: string | null = null;
+
+  register(descriptor: TranscriptionEngineDescriptor, options: { isDefault?: boolean } = {}): void {
+    this.descriptors.set(descriptor.id, descriptor);
+    if (options.isDefault || !this.defaultId) {
+      this.defaultId = descriptor.id;
+    }
+  }
+
+  get(id: string): TranscriptionEngineDescriptor | undefined {
+    return this.descriptors.get(id);
+  }
+
+  list(): TranscriptionEngineDescriptor[] {
+    return Array.from(this.descriptors.values());
+  }
+
+  create(id: string): TranscriptionEngine {
+    const descriptor = this.descriptors.get(id);
+    if (!descriptor) {
+      throw new Error(`Unknown transcription engine: ${id}`);
+    }
+    return descriptor.create();
+  }
+
+  getSelectedId(): string {
+    try {
+      const saved = localStorage.getItem(SELECTED_ENGINE_KEY);
+      if (saved && this.descriptors.get(saved)?.isSupported()) {
+        return saved;
+      }
+    } catch (error) {
+      console.error('Error loading selected engine:', error);
+    }
+    // The first engine registered becomes the default, so this only happens
+    // if the registry is read before any engine has been registered
+    if (!this.defaultId) {
+      throw new Error('No transcription engines are registered');
+    }
+    return this.defaultId;
+  }
+
+  setSelectedId(id: string): void {
+    if (!this.descriptors.has(id)) return;
+    try {
+      localStorage.setItem(SELECTED_ENGINE_KEY, id);
+    } catch (error) {
+      console.error('Error saving selected engine:', error);
+    }
+  }
+}
+
+export const transcriptionEngineRegistry = new TranscriptionEngineRegistry();
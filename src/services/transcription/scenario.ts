@@ -0,0 +1,154 @@
+import { parse as parseYaml } from 'yaml';
+import defaultScenarioSource from './scenarios/default.yaml?raw';
+
+export interface ScenarioLine {
+  offsetMs: number;
+  speaker: string;
+  language: string;
+  text: string;
+  /** Recognizer confidence to report for the line, from 0 to 1 */
+  confidence?: number;
+}
+
+export interface Scenario {
+  name: string;
+  seed: number;
+  jitterMs: number;
+  loop: boolean;
+  lines: ScenarioLine[];
+}
+
+export class ScenarioParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioParseError';
+  }
+}
+
+const CUSTOM_SCENARIO_KEY = 'demoScenario';
+
+/**
+ * Parses a meeting script. JSON is valid YAML, so one parser covers both
+ * formats. Lines are sorted by offset so scripts can be written in any order.
+ */
+export function parseScenario(source: string): Scenario {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source);
+  } catch (error) {
+    throw new ScenarioParseError(`Invalid scenario file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as { lines?: unknown }).lines)) {
+    throw new ScenarioParseError('Scenario must contain a "lines" list');
+  }
+
+  const data = raw as Record<string, unknown> & { lines: unknown[] };
+  const lines = data.lines.map((line, index) => {
+    const entry = line as Partial<ScenarioLine>;
+    if (typeof entry?.text !== 'string' || typeof entry.offsetMs !== 'number') {
+      throw new ScenarioParseError(`Line ${index + 1} needs "text" and a numeric "offsetMs"`);
+    }
+    return {
+      offsetMs: Math.max(0, entry.offsetMs),
+      speaker: typeof entry.speaker === 'string' ? entry.speaker : 'Speaker 1',
+      language: typeof entry.language === 'string' ? entry.language : 'English',
+      text: entry.text,
+      ...(typeof entry.confidence === 'number' ? { confidence: Math.min(1, Math.max(0, entry.confidence)) } : {}),
+    };
+  });
+
+  return {
+    name: typeof data.name === 'string' ? data.name : 'Untitled scenario',
+    seed: typeof data.seed === 'number' ? data.seed : 1,
+    jitterMs: typeof data.jitterMs === 'number' ? Math.max(0, data.jitterMs) : 0,
+    loop: data.loop === true,
+    lines: lines.sort((a, b) => a.offsetMs - b.offsetMs),
+  };
+}
+
+export function getDefaultScenario(): Scenario {
+  return parseScenario(defaultScenarioSource);
+}
+
+/** Returns the script uploaded for demos, falling back to the built-in one. */
+export function loadActiveScenario(): Scenario {
+  try {
+    const saved = localStorage.getItem(CUSTOM_SCENARIO_KEY);
+    if (saved) {
+      return parseScenario(saved);
+    }
+  } catch (error) {
+    console.error('Error loading demo scenario:', error);
+  }
+  return getDefaultScenario();
+}
+
+/** Validates and stores a script so it survives reloads. */
+export function saveActiveScenario(source: string): Scenario {
+  const scenario = parseScenario(source);
+  localStorage.setItem(CUSTOM_SCENARIO_KEY, source);
+  return scenario;
+}
+
+export function clearActiveScenario(): void {
+  localStorage.removeItem(CUSTOM_SCENARIO_KEY);
+}
+
+export type ClockHandle = number;
+
+/**
+ * Time source for scenario playback. The real clock drives demos; tests and
+ * QA tooling can swap in a ManualClock and advance time explicitly.
+ */
+export interface ScenarioClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): ClockHandle;
+  clearTimeout(handle: ClockHandle): void;
+}
+
+export const createRealClock = (speed = 1): ScenarioClock => ({
+  now: () => performance.now() * speed,
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms / speed),
+  clearTimeout: (handle) => window.clearTimeout(handle),
+});
+
+export class ManualClock implements ScenarioClock {
+  private time = 0;
+  private nextHandle = 1;
+  private timers = new Map<ClockHandle, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): ClockHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: ClockHandle): void {
+    this.timers.delete(handle);
+  }
+
+  /** Moves time forward, firing due timers in order. */
+  advance(ms: number): void {
+    const target = this.time + ms;
+    for (;;) {
+      let dueHandle: ClockHandle | null = null;
+      for (const [handle, timer] of this.timers) {
+        if (timer.at <= target && (dueHandle === null || timer.at < this.timers.get(dueHandle).at)) {
+          dueHandle = handle;
+        }
+      }
+      if (dueHandle === null) break;
+
+      const timer = this.timers.get(dueHandle);
+      this.timers.delete(dueHandle);
+      this.time = timer.at;
+      timer.callback();
+    }
+    this.time = target;
+  }
+}
@@ -0,0 +1,131 @@
+import { createRandom, RandomSource } from '@/lib/random';
+import { BaseTranscriptionEngine } from './baseEngine';
+import { ClockHandle, createRealClock, Scenario, ScenarioClock } from './scenario';
+
+const LOOP_GAP_MS = 3000;
+// Lines are revealed a word at a time ahead of their offset, like a live
+// recognizer refining its hypothesis
+const WORD_MS = 250;
+
+/**
+ * Plays a scripted meeting back on a controllable clock. Playback position
+ * only advances while running, so pausing never shifts the script's offsets,
+ * and the same seed always yields the same timings.
+ */
+export class ScenarioTranscriptionEngine extends BaseTranscriptionEngine {
+  readonly id = 'scenario';
+
+  private random: RandomSource;
+  private offsets: number[] = [];
+  private passStart = 0;
+  private nextIndex = 0;
+  private revealed = 0;
+  private position = 0;
+  private runStartedAt = 0;
+  private timer: ClockHandle | null = null;
+
+  constructor(
+    private readonly scenario: Scenario,
+    private readonly clock: ScenarioClock = createRealClock()
+  ) {
+    super();
+  }
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  async start(): Promise<void> {
+    this.clearTimer();
+    this.random = createRandom(this.scenario.seed);
+    this.passStart = 0;
+    this.position = 0;
+    this.revealed = 0;
+    this.beginPass();
+    this.runStartedAt = this.clock.now();
+    this.setState('running');
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.setState('idle');
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.position = this.getPosition();
+    this.clearTimer();
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.runStartedAt = this.clock.now();
+    this.setState('running');
+    this.scheduleNext();
+  }
+
+  /** Milliseconds of script played so far, excluding paused time. */
+  getPosition(): number {
+    if (this.state !== 'running') return this.position;
+    return this.position + (this.clock.now() - this.runStartedAt);
+  }
+
+  private beginPass(): void {
+    let previous = 0;
+    this.nextIndex = 0;
+    this.offsets = this.scenario.lines.map((line) => {
+      const offset = Math.max(previous, line.offsetMs + this.random() * this.scenario.jitterMs);
+      previous = offset;
+      return offset;
+    });
+  }
+
+  private scheduleNext(): void {
+    const { lines, loop } = this.scenario;
+    if (this.nextIndex >= lines.length) {
+      if (!loop || lines.length === 0) return;
+      this.passStart += this.offsets[this.offsets.length - 1] + LOOP_GAP_MS;
+      this.beginPass();
+    }
+
+    const line = lines[this.nextIndex];
+    const words = line.text.split(/\s+/);
+    const due = this.passStart + this.offsets[this.nextIndex]
+      - Math.max(0, words.length - 1 - this.revealed) * WORD_MS;
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      if (this.state !== 'running') return;
+
+      if (this.revealed < words.length - 1) {
+        this.revealed += 1;
+        this.emit('interim', {
+          text: words.slice(0, this.revealed).join(' '),
+          speaker: line.speaker,
+          language: line.language,
+          timestamp: new Date(),
+        });
+      } else {
+        this.nextIndex += 1;
+        this.revealed = 0;
+        this.emit('final', {
+          text: line.text,
+          speaker: line.speaker,
+          language: line.language,
+          timestamp: new Date(),
+          ...(line.confidence !== undefined ? { confidence: line.confidence } : {}),
+        });
+      }
+      this.scheduleNext();
+    }, Math.max(0, due - this.getPosition()));
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
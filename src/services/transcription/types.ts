@@ -0,0 +1,99 @@
+export type TranscriptionEngineState = 'idle' | 'running' | 'paused' | 'error';
+
+/** A recognized word and how sure the engine was of it, from 0 to 1 */
+export interface TranscriptionWord {
+  text: string;
+  confidence: number;
+}
+
+export interface TranscriptionSegment {
+  text: string;
+  language: string;
+  timestamp: Date;
+  speaker?: string;
+  /** Length of the utterance when the engine reports word timings */
+  durationMs?: number;
+  /** How sure the engine was of the whole segment, from 0 to 1, when it says */
+  confidence?: number;
+  /** The segment's words in order, for engines that score each one */
+  words?: TranscriptionWord[];
+}
+
+export interface TranscriptionEngineError {
+  code: string;
+  message: string;
+  recoverable: boolean;
+}
+
+export interface TranscriptionEngineOptions {
+  language?: string;
+  /** Names and jargon to favour, for engines that can be biased */
+  hints?: string[];
+}
+
+/** Mono PCM recorded earlier, e.g. decoded from an uploaded file */
+export interface RecordedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  /** Wall-clock time of the first sample; segment timestamps count from here */
+  startedAt: Date;
+}
+
+export interface RecordingTranscriptionOptions extends TranscriptionEngineOptions {
+  onProgress?: (fraction: number) => void;
+}
+
+export interface TranscriptionEngineEventMap {
+  final: TranscriptionSegment;
+  /**
+   * Latest hypothesis for the utterance in progress. Each interim replaces
+   * the previous one and the next final supersedes them all.
+   */
+  interim: TranscriptionSegment;
+  error: TranscriptionEngineError;
+  statechange: TranscriptionEngineState;
+}
+
+export type TranscriptionEngineListener<K extends keyof TranscriptionEngineEventMap> = (
+  payload: TranscriptionEngineEventMap[K]
+) => void;
+
+export interface TranscriptionEngine {
+  readonly id: string;
+  readonly state: TranscriptionEngineState;
+  isSupported(): boolean;
+  start(options?: TranscriptionEngineOptions): Promise<void>;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  setLanguage?(language: string): void;
+  /**
+   * Transcribes recorded audio as fast as the engine can take it, emitting
+   * the same final events as live audio. Resolves once the last one is out;
+   * stop() abandons the rest.
+   */
+  transcribeRecording?(audio: RecordedAudio, options?: RecordingTranscriptionOptions): Promise<void>;
+  on<K extends keyof TranscriptionEngineEventMap>(
+    event: K,
+    listener: TranscriptionEngineListener<K>
+  ): () => void;
+}
+
+export interface TranscriptionEngineDescriptor {
+  id: string;
+  label: string;
+  description: string;
+  /** Recognition locales the engine accepts, keyed by BCP-47 tag */
+  languages?: Record<string, string>;
+  /** Whether created engines implement transcribeRecording */
+  acceptsRecordings?: boolean;
+  /** Whether created engines use TranscriptionEngineOptions.hints */
+  acceptsHints?: boolean;
+  /**
+   * Whether created engines open the microphone themselves rather than
+   * reading the audio pipeline, and so miss its noise suppression
+   */
+  ownsMicrophone?: boolean;
+  isSupported: () => boolean;
+  create: () => TranscriptionEngine;
+}
@@ -0,0 +1,277 @@
+import { languageRegistry } from '@/services/language/languageRegistry';
+import { BaseTranscriptionEngine } from './baseEngine';
+import { TranscriptionEngineOptions } from './types';
+
+interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionResultList {
+  readonly length: number;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+  readonly message: string;
+}
+
+interface SpeechGrammarList {
+  addFromString(grammar: string, weight?: number): void;
+}
+
+interface SpeechRecognition extends EventTarget {
+  grammars: SpeechGrammarList;
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+type SpeechGrammarListConstructor = new () => SpeechGrammarList;
+
+declare global {
+  interface Window {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+    SpeechGrammarList?: SpeechGrammarListConstructor;
+    webkitSpeechGrammarList?: SpeechGrammarListConstructor;
+  }
+}
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  return window.SpeechRecognition || window.webkitSpeechRecognition;
+};
+
+const getSpeechGrammarList = (): SpeechGrammarListConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  return window.SpeechGrammarList || window.webkitSpeechGrammarList;
+};
+
+/** A JSGF grammar listing the hints as alternatives, stripped of JSGF syntax characters. */
+const toGrammar = (hints: string[]): string => {
+  const phrases = hints.map(hint => hint.replace(/[;|<>*+()[\]{}/=#"\\]/g, ' ').trim()).filter(Boolean);
+  return `#JSGF V1.0; grammar vocabulary; public <term> = ${phrases.join(' | ')} ;`;
+};
+
+// Chrome's recognizer covers every language in the registry
+export const WEB_SPEECH_LANGUAGES = languageRegistry.getLocaleNames();
+
+const MAX_CONSECUTIVE_RESTARTS = 5;
+const RESTART_DELAY_MS = 250;
+const STABLE_SESSION_MS = 5000;
+
+// Maps SpeechRecognitionErrorEvent.error codes to messages we can show in the
+// recorder. Recoverable errors are retried by the onend restart loop.
+const ERROR_MESSAGES: Record<string, { message: string; recoverable: boolean }> = {
+  'no-speech': { message: 'No speech detected, still listening', recoverable: true },
+  'aborted': { message: 'Recognition was interrupted, restarting', recoverable: true },
+  'network': { message: 'Speech service unreachable, retrying', recoverable: true },
+  'audio-capture': { message: 'No microphone was found', recoverable: false },
+  'not-allowed': { message: 'Microphone permission was denied', recoverable: false },
+  'service-not-allowed': { message: 'Speech recognition is blocked in this browser', recoverable: false },
+  'language-not-supported': { message: 'The selected language is not supported', recoverable: false },
+  'bad-grammar': { message: 'Speech recognition grammar error', recoverable: true },
+};
+
+export class WebSpeechTranscriptionEngine extends BaseTranscriptionEngine {
+  readonly id = 'web-speech';
+
+  private recognition: SpeechRecognition | null = null;
+  private language = 'en-IN';
+  private hints: string[] = [];
+  private restartCount = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionStartedAt = 0;
+
+  isSupported(): boolean {
+    return !!getSpeechRecognition();
+  }
+
+  async start(options: TranscriptionEngineOptions = {}): Promise<void> {
+    if (!getSpeechRecognition()) {
+      this.fail('not-supported', 'Speech recognition is not supported in this browser');
+      return;
+    }
+
+    if (options.language && WEB_SPEECH_LANGUAGES[options.language]) {
+      this.language = options.language;
+    }
+    this.hints = options.hints || [];
+    this.restartCount = 0;
+    this.setState('running');
+    this.listen();
+  }
+
+  stop(): void {
+    this.clearRestart();
+    this.endRecognition();
+    this.setState('idle');
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.clearRestart();
+    this.setState('paused');
+    this.endRecognition();
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.restartCount = 0;
+    this.setState('running');
+    this.listen();
+  }
+
+  /**
+   * Switches the recognition locale. A running recognizer is restarted so
+   * the new language applies to the next utterance.
+   */
+  setLanguage(language: string): void {
+    if (!WEB_SPEECH_LANGUAGES[language] || language === this.language) return;
+    this.language = language;
+    if (this.state === 'running') {
+      this.endRecognition();
+      this.listen();
+    }
+  }
+
+  private listen(): void {
+    const Recognition = getSpeechRecognition();
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = this.language;
+    // Grammars only bias recognition; anything else can still be heard
+    const GrammarList = getSpeechGrammarList();
+    if (GrammarList && this.hints.length > 0) {
+      const grammars = new GrammarList();
+      grammars.addFromString(toGrammar(this.hints), 1);
+      recognition.grammars = grammars;
+    }
+
+    recognition.onresult = (event) => {
+      this.restartCount = 0;
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (!result.isFinal) {
+          interim += result[0].transcript;
+          continue;
+        }
+
+        const text = result[0].transcript.trim();
+        if (!text) continue;
+        // Browsers that do not score results report 0
+        const { confidence } = result[0];
+        this.emit('final', {
+          text,
+          language: WEB_SPEECH_LANGUAGES[recognition.lang],
+          timestamp: new Date(),
+          ...(confidence > 0 ? { confidence } : {}),
+        });
+      }
+
+      // Chrome splits the pending hypothesis across several non-final results
+      if (interim.trim()) {
+        this.emit('interim', {
+          text: interim.trim(),
+          language: WEB_SPEECH_LANGUAGES[recognition.lang],
+          timestamp: new Date(),
+        });
+      }
+    };
+
+    recognition.onerror = (event) => {
+      if (this.recognition !== recognition) return;
+      const mapped = ERROR_MESSAGES[event.error] || {
+        message: event.message || `Speech recognition error: ${event.error}`,
+        recoverable: false,
+      };
+
+      if (!mapped.recoverable) {
+        this.fail(event.error, mapped.message);
+        return;
+      }
+
+      this.emit('error', { code: event.error, ...mapped });
+    };
+
+    recognition.onend = () => {
+      // A stale instance can end after a newer one has started
+      if (this.recognition !== recognition) return;
+      this.recognition = null;
+      if (Date.now() - this.sessionStartedAt > STABLE_SESSION_MS) {
+        this.restartCount = 0;
+      }
+      if (this.state === 'running') {
+        this.scheduleRestart();
+      }
+    };
+
+    this.recognition = recognition;
+    this.sessionStartedAt = Date.now();
+    try {
+      recognition.start();
+    } catch (error) {
+      this.recognition = null;
+      this.fail('start-failed', `Could not start speech recognition: ${error}`);
+    }
+  }
+
+  // Chrome ends continuous sessions after a period of silence or roughly a
+  // minute of audio, so keep restarting for as long as we are recording.
+  private scheduleRestart(): void {
+    if (this.restartCount >= MAX_CONSECUTIVE_RESTARTS) {
+      this.fail('restart-limit', 'Speech recognition keeps stopping, please restart recording');
+      return;
+    }
+
+    this.restartCount += 1;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.state === 'running') {
+        this.listen();
+      }
+    }, RESTART_DELAY_MS * this.restartCount);
+  }
+
+  private endRecognition(): void {
+    const recognition = this.recognition;
+    this.recognition = null;
+    recognition?.abort();
+  }
+
+  private clearRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private fail(code: string, message: string): void {
+    this.clearRestart();
+    this.endRecognition();
+    this.setState('error');
+    this.emit('error', { code, message, recoverable: false });
+  }
+}
@@ -0,0 +1,107 @@
+import { parse as parseYaml } from 'yaml';
+import glossarySource from './glossary.yaml?raw';
+import { Translation, TranslationError, TranslationProvider, TranslationRequest } from './types';
+
+export interface GlossaryEntry {
+  en: string;
+  ta: string;
+  romanized?: string[];
+}
+
+type PhraseTable = Map<string, string>;
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}'\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const TRAILING_PUNCTUATION = /[.,!?;:]+$/;
+
+let glossary: GlossaryEntry[] | null = null;
+
+/** The bundled phrase list, parsed on first use. */
+export function loadGlossary(): GlossaryEntry[] {
+  if (!glossary) {
+    try {
+      glossary = (parseYaml(glossarySource) as { phrases: GlossaryEntry[] }).phrases;
+    } catch (error) {
+      console.error('Error loading translation glossary:', error);
+      glossary = [];
+    }
+  }
+  return glossary;
+}
+
+/**
+ * Offline translation from a bundled phrase table. Each utterance is
+ * covered greedily with the longest known phrases; words without an entry
+ * are carried over unchanged.
+ */
+export class GlossaryTranslationProvider implements TranslationProvider {
+  readonly id = 'glossary';
+  readonly label = 'Glossary (offline)';
+  readonly offline = true;
+
+  private tables: Record<string, PhraseTable> | null = null;
+  private maxPhraseWords = 1;
+
+  supports(from: string, to: string): boolean {
+    return !!this.getTable(from, to);
+  }
+
+  async translate({ text, from, to }: TranslationRequest): Promise<Translation> {
+    const table = this.getTable(from, to);
+    if (!table) {
+      throw new TranslationError(`The glossary has no ${from} to ${to} entries`);
+    }
+
+    const words = text.split(/\s+/).filter(Boolean);
+    const output: string[] = [];
+    let matched = 0;
+
+    for (let start = 0; start < words.length;) {
+      let length = Math.min(this.maxPhraseWords, words.length - start);
+      for (; length > 0; length--) {
+        const phrase = table.get(normalize(words.slice(start, start + length).join(' ')));
+        if (phrase === undefined) continue;
+
+        const punctuation = words[start + length - 1].match(TRAILING_PUNCTUATION)?.[0] || '';
+        output.push(TRAILING_PUNCTUATION.test(phrase) ? phrase : phrase + punctuation);
+        matched += length;
+        break;
+      }
+
+      if (length === 0) {
+        output.push(words[start]);
+        length = 1;
+      }
+      start += length;
+    }
+
+    if (matched === 0) {
+      throw new TranslationError('No glossary entries matched');
+    }
+    return { text: output.join(' '), language: to, provider: this.id };
+  }
+
+  private getTable(from: string, to: string): PhraseTable | undefined {
+    if (!this.tables) {
+      this.tables = this.loadTables();
+    }
+    return this.tables[`${from}>${to}`];
+  }
+
+  private loadTables(): Record<string, PhraseTable> {
+    const tamilToEnglish: PhraseTable = new Map();
+    const englishToTamil: PhraseTable = new Map();
+
+    for (const entry of loadGlossary()) {
+      for (const source of [entry.ta, ...(entry.romanized || [])]) {
+        tamilToEnglish.set(normalize(source), entry.en);
+        this.maxPhraseWords = Math.max(this.maxPhraseWords, normalize(source).split(' ').length);
+      }
+      englishToTamil.set(normalize(entry.en), entry.ta);
+      this.maxPhraseWords = Math.max(this.maxPhraseWords, normalize(entry.en).split(' ').length);
+    }
+
+    return { 'Tamil>English': tamilToEnglish, 'English>Tamil': englishToTamil };
+  }
+}
@@ -0,0 +1,62 @@
+import { languageRegistry } from '@/services/language/languageRegistry';
+import { redactText } from '@/services/privacy/redaction';
+import { Translation, TranslationError, TranslationProvider, TranslationRequest } from './types';
+
+// Any LibreTranslate-compatible server works, including a local mock
+const TRANSLATION_URL = import.meta.env.VITE_TRANSLATION_URL || 'http://localhost:5000';
+const TRANSLATION_API_KEY = import.meta.env.VITE_TRANSLATION_API_KEY;
+const REQUEST_TIMEOUT_MS = 5000;
+
+export class HttpTranslationProvider implements TranslationProvider {
+  readonly id = 'http';
+  readonly label = 'Translation server';
+  readonly offline = false;
+
+  supports(from: string, to: string): boolean {
+    return !!languageRegistry.getByName(from) && !!languageRegistry.getByName(to);
+  }
+
+  async translate({ text, from, to }: TranslationRequest): Promise<Translation> {
+    const source = languageRegistry.getByName(from)?.code;
+    const target = languageRegistry.getByName(to)?.code;
+    if (!source || !target) {
+      throw new TranslationError(`Unsupported language pair ${from} to ${to}`);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${TRANSLATION_URL}/translate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          // The local transcript may keep personal data, the server never sees it
+          q: redactText(text).text,
+          source,
+          target,
+          format: 'text',
+          ...(TRANSLATION_API_KEY ? { api_key: TRANSLATION_API_KEY } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new TranslationError(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const result = await response.json() as { translatedText?: string };
+      if (typeof result.translatedText !== 'string') {
+        throw new TranslationError('Translation server returned no text');
+      }
+      return { text: result.translatedText, language: to, provider: this.id };
+    } catch (error) {
+      if (error instanceof TranslationError) throw error;
+      throw new TranslationError(`Translation server unreachable: ${error}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
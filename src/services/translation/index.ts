@@ -0,0 +1,79 @@
+import { GlossaryTranslationProvider } from './glossaryProvider';
+import { HttpTranslationProvider } from './httpProvider';
+import { Translation, TranslationProvider } from './types';
+
+export const TRANSLATION_OFF = 'off';
+
+const SELECTED_PROVIDER_KEY = 'translationProvider';
+
+class TranslationService {
+  private providers = new Map<string, TranslationProvider>();
+  private defaultId = TRANSLATION_OFF;
+
+  register(provider: TranslationProvider, options: { isDefault?: boolean } = {}): void {
+    this.providers.set(provider.id, provider);
+    if (options.isDefault) {
+      this.defaultId = provider.id;
+    }
+  }
+
+  list(): TranslationProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getSelectedId(): string {
+    try {
+      const saved = localStorage.getItem(SELECTED_PROVIDER_KEY);
+      if (saved && (saved === TRANSLATION_OFF || this.providers.has(saved))) {
+        return saved;
+      }
+    } catch (error) {
+      console.error('Error loading translation provider:', error);
+    }
+    return this.defaultId;
+  }
+
+  setSelectedId(id: string): void {
+    if (id !== TRANSLATION_OFF && !this.providers.has(id)) return;
+    try {
+      localStorage.setItem(SELECTED_PROVIDER_KEY, id);
+    } catch (error) {
+      console.error('Error saving translation provider:', error);
+    }
+  }
+
+  /**
+   * The language an entry is translated into: the first other language the
+   * meeting expects, or null for single-language meetings.
+   */
+  getTargetLanguage(language: string, expectedLanguages: string[]): string | null {
+    return expectedLanguages.find(expected => expected !== language) || null;
+  }
+
+  /**
+   * Translates with the selected provider. When an online provider fails,
+   * offline providers are tried so the meeting keeps its translations.
+   * Returns null when translation is off or nothing could translate the text.
+   */
+  async translate(text: string, from: string, to: string): Promise<Translation | null> {
+    const selected = this.providers.get(this.getSelectedId());
+    if (!selected) return null;
+
+    const candidates = [selected, ...this.list().filter(provider => provider !== selected && provider.offline)];
+    for (const provider of candidates) {
+      if (!provider.supports(from, to)) continue;
+      try {
+        return await provider.translate({ text, from, to });
+      } catch (error) {
+        console.error(`Translation with ${provider.id} failed:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+export const translationService = new TranslationService();
+translationService.register(new GlossaryTranslationProvider(), { isDefault: true });
+translationService.register(new HttpTranslationProvider());
+
+export * from './types';
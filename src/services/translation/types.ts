@@ -0,0 +1,29 @@
+export interface TranslationRequest {
+  text: string;
+  /** Registry display names, e.g. "Tamil" */
+  from: string;
+  to: string;
+}
+
+export interface Translation {
+  text: string;
+  language: string;
+  /** Id of the provider that produced the translation */
+  provider: string;
+}
+
+export interface TranslationProvider {
+  readonly id: string;
+  readonly label: string;
+  /** Works without a network connection */
+  readonly offline: boolean;
+  supports(from: string, to: string): boolean;
+  translate(request: TranslationRequest): Promise<Translation>;
+}
+
+export class TranslationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranslationError';
+  }
+}
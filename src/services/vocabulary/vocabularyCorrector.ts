@@ -0,0 +1,184 @@
+import { romanizeTamil } from '@/services/language/transliteration';
+import { VocabularyTerm } from './vocabularyStore';
+
+export type CorrectionMethod = 'exact' | 'fuzzy' | 'phonetic';
+
+export interface VocabularyCorrection {
+  /** The words as the engine recognized them */
+  from: string;
+  to: string;
+  method: CorrectionMethod;
+}
+
+export interface CorrectedText {
+  text: string;
+  corrections: VocabularyCorrection[];
+}
+
+interface MatchForm {
+  term: VocabularyTerm;
+  normalized: string;
+  /** Romanized with spaces removed, for fuzzy matching */
+  compact: string;
+  phonetic: string;
+  /** Aliases are spellings, not sounds, so they only match exactly */
+  exactOnly: boolean;
+  words: number;
+}
+
+interface Match {
+  term: VocabularyTerm;
+  method: CorrectionMethod;
+  score: number;
+  length: number;
+}
+
+// Edit similarity needed for a fuzzy match; high enough that short common
+// words are never pulled onto a term one letter away
+const FUZZY_THRESHOLD = 0.85;
+// Phonetic codes shorter than this collide too often to trust
+const MIN_PHONETIC_LENGTH = 4;
+const PHONETIC_SCORE = 0.8;
+
+const TRAILING_PUNCTUATION = /[.,!?;:]+$/;
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}'\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const compact = (text: string): string => romanizeTamil(normalize(text)).replace(/[^a-z0-9]/g, '');
+
+// Tamil script does not mark voicing, so romanized Tamil and English
+// recognitions of the same word disagree on b/p, d/t, g/k and so on; each
+// such pair shares one code here
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/ph/g, 'f'],
+  [/[gk]h/g, 'k'],
+  [/[bp]h/g, 'p'],
+  [/[dt]h/g, 't'],
+  [/zh/g, 'l'],
+  [/[sc]h/g, 's'],
+  [/ck/g, 'k'],
+  [/c(?=[eiy])/g, 's'],
+  [/[cgq]/g, 'k'],
+  [/x/g, 'ks'],
+  [/z/g, 's'],
+  [/b/g, 'p'],
+  [/d/g, 't'],
+  [/[vw]/g, 'f'],
+  [/j/g, 's'],
+];
+
+/** A rough sound-alike code: consonant skeleton after the first letter. */
+const phoneticKey = (text: string): string => {
+  let key = compact(text).replace(/[0-9]/g, '');
+  for (const [pattern, replacement] of PHONETIC_RULES) {
+    key = key.replace(pattern, replacement);
+  }
+  key = key.charAt(0) + key.slice(1).replace(/[aeiouy]/g, '');
+  return key.replace(/(.)\1+/g, '$1');
+};
+
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+const toForms = (terms: VocabularyTerm[]): MatchForm[] =>
+  terms.flatMap(term => [
+    ...[term.term, ...term.phoneticVariants].map(text => ({ term, text, exactOnly: false })),
+    ...term.aliases.map(text => ({ term, text, exactOnly: true })),
+  ])
+    .filter(({ text }) => normalize(text))
+    .map(({ term, text, exactOnly }) => ({
+      term,
+      normalized: normalize(text),
+      compact: compact(text),
+      phonetic: phoneticKey(text),
+      exactOnly,
+      words: normalize(text).split(' ').length,
+    }));
+
+const scoreForm = (form: MatchForm, window: string): Pick<Match, 'method' | 'score'> | null => {
+  const normalized = normalize(window);
+  if (normalized === form.normalized) return { method: 'exact', score: 1 };
+  if (form.exactOnly) return null;
+
+  // Loose matches must start alike, or a short word before the term
+  // would be swallowed into it
+  const loose = compact(window);
+  if (loose.charAt(0) !== form.compact.charAt(0)) return null;
+
+  const fuzzy = similarity(loose, form.compact);
+  if (fuzzy >= FUZZY_THRESHOLD) return { method: 'fuzzy', score: fuzzy };
+
+  if (form.phonetic.length >= MIN_PHONETIC_LENGTH && phoneticKey(window) === form.phonetic) {
+    return { method: 'phonetic', score: PHONETIC_SCORE };
+  }
+  return null;
+};
+
+/**
+ * Rewrites mangled vocabulary in recognized text. Runs of words are compared
+ * with each term's spelling, aliases and phonetic variants, longest runs
+ * first, and the best match is replaced by the term's own spelling. Runs a
+ * word longer than a form are tried too, since recognizers often split an
+ * unfamiliar name into several common words.
+ */
+export function correctText(text: string, terms: VocabularyTerm[]): CorrectedText {
+  const forms = toForms(terms);
+  if (forms.length === 0) return { text, corrections: [] };
+
+  const maxWords = Math.max(...forms.map(form => form.words)) + 1;
+  const words = text.split(/\s+/).filter(Boolean);
+  const output: string[] = [];
+  const corrections: VocabularyCorrection[] = [];
+
+  for (let start = 0; start < words.length;) {
+    let best: Match | null = null;
+    for (let length = Math.min(maxWords, words.length - start); length > 0; length--) {
+      const window = words.slice(start, start + length).join(' ');
+      for (const form of forms) {
+        if (length > form.words + 1) continue;
+        const match = scoreForm(form, window);
+        // "fresh works" is an exact phonetic variant but also a perfect fuzzy
+        // match for "Freshworks"; the badge should say exact
+        const exactTie = !!best && match?.method === 'exact' && best.method !== 'exact' &&
+          match.score === best.score && length === best.length;
+        if (match && (!best || match.score > best.score || exactTie)) {
+          best = { ...match, term: form.term, length };
+        }
+      }
+    }
+
+    if (!best) {
+      output.push(words[start]);
+      start += 1;
+      continue;
+    }
+
+    const original = words.slice(start, start + best.length).join(' ');
+    const punctuation = original.match(TRAILING_PUNCTUATION)?.[0] || '';
+    const replacement = best.term.term + (TRAILING_PUNCTUATION.test(best.term.term) ? '' : punctuation);
+    output.push(replacement);
+    if (original !== replacement) {
+      corrections.push({ from: original, to: best.term.term, method: best.method });
+    }
+    start += best.length;
+  }
+
+  return { text: output.join(' '), corrections };
+}
@@ -0,0 +1,73 @@
+export interface VocabularyTerm {
+  id: string;
+  /** The spelling entries should use */
+  term: string;
+  /** Registry display name of the language the term is spoken in, or null for any */
+  language: string | null;
+  /** Other spellings that mean the term, replaced only on an exact match */
+  aliases: string[];
+  /** How recognizers tend to mishear the term, matched loosely */
+  phoneticVariants: string[];
+}
+
+const VOCABULARY_KEY = 'vocabulary';
+
+/**
+ * Product names and jargon the organization uses, kept on this machine.
+ * Reads are synchronous so every entry can be corrected as it arrives.
+ */
+class VocabularyStore {
+  private terms: VocabularyTerm[] | null = null;
+
+  list(): VocabularyTerm[] {
+    if (!this.terms) {
+      this.terms = this.load();
+    }
+    return this.terms;
+  }
+
+  save(term: VocabularyTerm): void {
+    const others = this.list().filter(existing => existing.id !== term.id);
+    this.terms = [...others, term].sort((a, b) => a.term.localeCompare(b.term));
+    this.persist();
+  }
+
+  delete(id: string): void {
+    this.terms = this.list().filter(term => term.id !== id);
+    this.persist();
+  }
+
+  /** Terms that apply to entries in the given language. */
+  forLanguage(language: string): VocabularyTerm[] {
+    return this.list().filter(term => term.language === null || term.language === language);
+  }
+
+  /** Phrases for engines to favour in a meeting held in these languages. */
+  getHints(languages: string[]): string[] {
+    return this.list()
+      .filter(term => term.language === null || languages.includes(term.language))
+      .map(term => term.term);
+  }
+
+  private load(): VocabularyTerm[] {
+    try {
+      const saved = localStorage.getItem(VOCABULARY_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Error loading vocabulary:', error);
+    }
+    return [];
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(VOCABULARY_KEY, JSON.stringify(this.terms));
+    } catch (error) {
+      console.error('Error saving vocabulary:', error);
+    }
+  }
+}
+
+export const vocabularyStore = new VocabularyStore();
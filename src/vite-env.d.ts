@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_OFFLINE_MODEL_TA_IN?: string;
+  readonly VITE_OFFLINE_MODEL_EN_IN?: string;
+  readonly VITE_OFFLINE_MODEL_HI_IN?: string;
+  readonly VITE_OFFLINE_MODEL_TE_IN?: string;
+  readonly VITE_TRANSLATION_URL?: string;
+  readonly VITE_TRANSLATION_API_KEY?: string;
+  readonly VITE_KEEP_UNREDACTED_TRANSCRIPTS?: string;
+}